@@ -2,6 +2,7 @@
 let adminToken = localStorage.getItem('adminToken');
 let currentTab = 'events';
 let pollInterval = null;
+let eventStream = null;
 let allTeams = [];
 let allSkus = [];
 
@@ -64,7 +65,8 @@ function showDashboard() {
 // Polling
 function startPolling() {
   updateAll();
-  pollInterval = setInterval(updateAll, 3000); // Poll every 3 seconds
+  pollInterval = setInterval(updateAll, 15000); // Fallback; the stream pushes changes as they happen
+  startStream();
 }
 
 function stopPolling() {
@@ -72,6 +74,19 @@ function stopPolling() {
     clearInterval(pollInterval);
     pollInterval = null;
   }
+
+  if (eventStream) {
+    eventStream.close();
+    eventStream = null;
+  }
+}
+
+// Live updates for all teams (EventSource reconnects on its own)
+function startStream() {
+  eventStream = new EventSource(`${API_BASE}/stream?token=${encodeURIComponent(adminToken)}`);
+  eventStream.addEventListener('event', updateAuditLogs);
+  eventStream.addEventListener('chat', updateMessages);
+  eventStream.addEventListener('inventory', updateInventory);
 }
 
 function updateAll() {
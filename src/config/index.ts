@@ -10,10 +10,19 @@ export const config = {
   jwtSecret: process.env.JWT_SECRET || 'dev-secret-change-in-production',
   defaultMode: (process.env.DEFAULT_MODE || 'development') as 'development' | 'judging',
   corsOrigin: process.env.CORS_ORIGIN || '*',
+  eventSchedulerIntervalMs: parseInt(process.env.EVENT_SCHEDULER_INTERVAL_MS || '1000'),
+  // Reserve, release and commit stock from order events
+  autoReserveInventory: process.env.AUTO_RESERVE_INVENTORY === 'true',
+  reservationTtlSeconds: parseInt(process.env.RESERVATION_TTL_SECONDS || '900'), // 15 minutes unless set per category
+  reservationSweepIntervalMs: parseInt(process.env.RESERVATION_SWEEP_INTERVAL_MS || '5000'),
   // n8n Webhook configuration
   webhookEnabled: process.env.WEBHOOK_ENABLED === 'true',
   webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT || '5000'), // 5 seconds
   defaultWebhookUrl: process.env.DEFAULT_WEBHOOK_URL || '',
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+  webhookRetryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000'), // doubled per attempt
+  webhookRetryMaxMs: parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '600000'), // 10 minutes
+  webhookWorkerIntervalMs: parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '5000'),
 };
 
 // Validate required config
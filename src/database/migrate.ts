@@ -9,12 +9,31 @@ export function runMigrations() {
     .filter(f => f.endsWith('.sql'))
     .sort();
 
-  console.log(`Running ${migrationFiles.length} migrations...`);
+  // Track applied migrations so non-idempotent statements (ALTER TABLE) only run once
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TEXT NOT NULL
+    )
+  `);
 
-  for (const file of migrationFiles) {
+  const applied = new Set(
+    (db.prepare('SELECT name FROM schema_migrations').all() as any[]).map(row => row.name)
+  );
+  const pending = migrationFiles.filter(f => !applied.has(f));
+
+  console.log(`Running ${pending.length} migrations...`);
+
+  const recordStmt = db.prepare('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)');
+
+  for (const file of pending) {
     const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
     console.log(`Running migration: ${file}`);
-    db.exec(sql);
+
+    db.transaction(() => {
+      db.exec(sql);
+      recordStmt.run(file, new Date().toISOString());
+    })();
   }
 
   console.log('Migrations completed successfully');
@@ -0,0 +1,2 @@
+-- Event types a team wants pushed to its webhook (JSON array, NULL = all types)
+ALTER TABLE team_webhooks ADD COLUMN event_types TEXT;
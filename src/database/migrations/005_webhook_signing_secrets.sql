@@ -0,0 +1,6 @@
+-- Per-team secret used to sign webhook requests (HMAC-SHA256)
+ALTER TABLE team_webhooks ADD COLUMN signing_secret TEXT;
+
+UPDATE team_webhooks
+SET signing_secret = 'whsec_' || lower(hex(randomblob(32)))
+WHERE signing_secret IS NULL;
@@ -0,0 +1,13 @@
+-- Duplicate deliveries of an existing event (same event ID delivered again)
+CREATE TABLE IF NOT EXISTS event_redeliveries (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  team_id TEXT NOT NULL,
+  deliver_at TEXT NOT NULL,
+  delivered_at TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_redeliveries_team_id ON event_redeliveries(team_id);
+CREATE INDEX IF NOT EXISTS idx_event_redeliveries_deliver_at ON event_redeliveries(deliver_at);
@@ -0,0 +1,6 @@
+-- Client-supplied idempotency keys (unique per team)
+ALTER TABLE events ADD COLUMN idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_team_idempotency_key
+  ON events(team_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
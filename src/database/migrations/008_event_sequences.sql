@@ -0,0 +1,42 @@
+-- Per-team feed sequence numbers (gap-free, assigned when an entry enters the team's feed)
+CREATE TABLE IF NOT EXISTS team_sequences (
+  team_id TEXT PRIMARY KEY,
+  last_sequence INTEGER NOT NULL
+);
+
+ALTER TABLE events ADD COLUMN sequence INTEGER;
+ALTER TABLE event_redeliveries ADD COLUMN sequence INTEGER;
+
+-- Backfill existing feed entries in delivery order
+CREATE TEMP TABLE feed_backfill AS
+SELECT kind, id, team_id, ROW_NUMBER() OVER (PARTITION BY team_id ORDER BY delivered_at, id) AS seq
+FROM (
+  SELECT 'event' AS kind, id, team_id, COALESCE(processed_at, created_at) AS delivered_at
+  FROM events
+  WHERE json_extract(metadata, '$.delayedUntil') IS NULL OR processed_at IS NOT NULL
+  UNION ALL
+  SELECT 'redelivery' AS kind, id, team_id, delivered_at
+  FROM event_redeliveries
+  WHERE delivered_at IS NOT NULL
+);
+
+UPDATE events
+SET sequence = (SELECT seq FROM feed_backfill f WHERE f.kind = 'event' AND f.id = events.id)
+WHERE id IN (SELECT id FROM feed_backfill WHERE kind = 'event');
+
+UPDATE event_redeliveries
+SET sequence = (SELECT seq FROM feed_backfill f WHERE f.kind = 'redelivery' AND f.id = event_redeliveries.id)
+WHERE id IN (SELECT id FROM feed_backfill WHERE kind = 'redelivery');
+
+INSERT INTO team_sequences (team_id, last_sequence)
+SELECT team_id, MAX(seq) FROM feed_backfill GROUP BY team_id;
+
+DROP TABLE feed_backfill;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_team_sequence
+  ON events(team_id, sequence)
+  WHERE sequence IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_redeliveries_team_sequence
+  ON event_redeliveries(team_id, sequence)
+  WHERE sequence IS NOT NULL;
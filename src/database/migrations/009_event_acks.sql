@@ -0,0 +1,12 @@
+-- Per-team acknowledgements of feed events (one per event; re-acking updates it)
+CREATE TABLE IF NOT EXISTS event_acks (
+  team_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('handled', 'rejected', 'deferred')),
+  note TEXT,
+  acked_at TEXT NOT NULL,
+  PRIMARY KEY (team_id, event_id),
+  FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_acks_event_id ON event_acks(event_id);
@@ -0,0 +1,8 @@
+-- Payload schema versions published after the built-in version 1
+CREATE TABLE IF NOT EXISTS event_schemas (
+  type TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  schema TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (type, version)
+);
@@ -0,0 +1,3 @@
+-- Lookups for order lifecycles and correlated event chains
+CREATE INDEX IF NOT EXISTS idx_events_order_id ON events(team_id, json_extract(payload, '$.orderId'));
+CREATE INDEX IF NOT EXISTS idx_events_correlation_id ON events(json_extract(metadata, '$.correlationId'));
@@ -0,0 +1,13 @@
+-- Stock held for an order, one row per order line (SKU)
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  team_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL CHECK (status IN ('reserved', 'released', 'committed')),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (team_id, order_id, sku)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_status ON inventory_reservations(team_id, status);
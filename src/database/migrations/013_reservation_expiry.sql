@@ -0,0 +1,30 @@
+-- Each reservation becomes its own row with an expiry; expired rows are released by the sweeper.
+-- Reservations made before expiry existed are due immediately.
+CREATE TABLE IF NOT EXISTS inventory_reservations_v2 (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL CHECK (status IN ('reserved', 'released', 'committed', 'expired')),
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+INSERT INTO inventory_reservations_v2 (id, team_id, order_id, sku, quantity, status, expires_at, created_at, updated_at)
+SELECT lower(hex(randomblob(16))), team_id, order_id, sku, quantity, status, created_at, created_at, updated_at
+FROM inventory_reservations;
+
+DROP TABLE inventory_reservations;
+ALTER TABLE inventory_reservations_v2 RENAME TO inventory_reservations;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON inventory_reservations(team_id, order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiry ON inventory_reservations(status, expires_at);
+
+-- Reservation lifetime per SKU category (categories without a row use the platform default)
+CREATE TABLE IF NOT EXISTS reservation_ttls (
+  category TEXT PRIMARY KEY,
+  ttl_seconds INTEGER NOT NULL CHECK (ttl_seconds > 0),
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,11 @@
+-- Reorder point per SKU (NULL = none); crossing below it emits inventory.shortage_detected
+ALTER TABLE skus ADD COLUMN reorder_point INTEGER CHECK (reorder_point >= 0);
+
+-- Per-team overrides of a SKU's reorder point
+CREATE TABLE IF NOT EXISTS team_reorder_points (
+  team_id TEXT NOT NULL,
+  sku TEXT NOT NULL,
+  reorder_point INTEGER NOT NULL CHECK (reorder_point >= 0),
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (team_id, sku)
+);
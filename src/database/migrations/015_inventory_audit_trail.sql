@@ -0,0 +1,17 @@
+-- Full before/after levels on every audit row, plus the order it was for.
+-- Rows written before this migration have no reserved values.
+ALTER TABLE inventory_events ADD COLUMN previous_reserved INTEGER;
+ALTER TABLE inventory_events ADD COLUMN new_reserved INTEGER;
+ALTER TABLE inventory_events ADD COLUMN order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_events_team_sku ON inventory_events(team_id, sku);
+
+-- Earlier history is incomplete (releases were not logged), so each existing item gets a
+-- baseline 'initialized' row at its current levels; rebuilds replay from the latest baseline
+INSERT INTO inventory_events (
+  id, team_id, sku, type, quantity, previous_stock, new_stock, previous_reserved, new_reserved, by, created_at
+)
+SELECT
+  lower(hex(randomblob(16))), team_id, sku, 'initialized', stock, stock, stock, reserved, reserved, 'system',
+  strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM inventory;
@@ -0,0 +1,14 @@
+-- Catalog fields: price (in cents), currency and lifecycle status
+ALTER TABLE skus ADD COLUMN price_cents INTEGER NOT NULL DEFAULT 0 CHECK (price_cents >= 0);
+ALTER TABLE skus ADD COLUMN currency TEXT NOT NULL DEFAULT 'EUR';
+ALTER TABLE skus ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'discontinued'));
+
+-- Prices for the original catalog
+UPDATE skus SET price_cents = 8900 WHERE sku = 'IT-001';
+UPDATE skus SET price_cents = 12900 WHERE sku = 'IT-002';
+UPDATE skus SET price_cents = 19900 WHERE sku = 'IT-003';
+UPDATE skus SET price_cents = 54900 WHERE sku = 'IT-004';
+UPDATE skus SET price_cents = 129900 WHERE sku = 'IT-005';
+UPDATE skus SET price_cents = 89900 WHERE sku = 'IT-006';
+UPDATE skus SET price_cents = 9900 WHERE sku = 'IT-007';
+UPDATE skus SET price_cents = 4900 WHERE sku = 'IT-008';
@@ -0,0 +1,39 @@
+-- inventory.shortage_detected payloads name their reason: an order that could not be
+-- reserved ('order') or available stock crossing below the reorder point ('reorder_point')
+INSERT INTO event_schemas (type, version, schema, created_at)
+SELECT
+  'inventory.shortage_detected',
+  COALESCE(MAX(version), 1) + 1,
+  '{
+    "type": "object",
+    "required": ["reason", "sku", "available"],
+    "properties": {
+      "reason": { "type": "string", "enum": ["order", "reorder_point"] },
+      "sku": { "type": "string", "minLength": 1 },
+      "available": { "type": "integer" }
+    },
+    "oneOf": [
+      {
+        "type": "object",
+        "required": ["requested", "orderId"],
+        "properties": {
+          "reason": { "enum": ["order"] },
+          "requested": { "type": "integer", "minimum": 1 },
+          "orderId": { "type": "string", "minLength": 1 }
+        }
+      },
+      {
+        "type": "object",
+        "required": ["stock", "reserved", "reorderPoint"],
+        "properties": {
+          "reason": { "enum": ["reorder_point"] },
+          "stock": { "type": "integer" },
+          "reserved": { "type": "integer" },
+          "reorderPoint": { "type": "integer", "minimum": 0 }
+        }
+      }
+    ]
+  }',
+  strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM event_schemas
+WHERE type = 'inventory.shortage_detected';
@@ -0,0 +1,2 @@
+-- Teams only get the write:inventory scope once staff grant it
+ALTER TABLE teams ADD COLUMN inventory_write INTEGER NOT NULL DEFAULT 0;
@@ -8,6 +8,11 @@ import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import publicRoutes from './routes/public';
 import adminRoutes from './routes/admin';
 import healthRoutes from './routes/health';
+import streamRoutes, { attachStreamWebSocket, WEBSOCKET_PATH } from './routes/stream';
+import WebhookService from './services/WebhookService';
+import EventScheduler from './services/EventScheduler';
+import ReservationService from './services/ReservationService';
+import ReservationSweeper from './services/ReservationSweeper';
 import logger from './utils/logger';
 import config from './config';
 
@@ -30,7 +35,8 @@ app.use((req, res, next) => {
 // Health check (no auth required)
 app.use('/health', healthRoutes);
 
-// API routes
+// API routes (the stream authenticates itself: EventSource can't send headers)
+app.use('/api/stream', streamRoutes);
 app.use('/api', publicRoutes);
 app.use('/api/admin', adminRoutes);
 
@@ -75,12 +81,30 @@ async function start() {
   try {
     await initializeDatabase();
 
-    app.listen(config.port, () => {
+    // Retry pending webhook deliveries (including ones left over from a previous run)
+    WebhookService.startDeliveryWorker();
+
+    // Release delayed events once they are due
+    EventScheduler.start();
+
+    // Reserve stock for new orders, release it on cancellation and commit it on payment
+    if (config.autoReserveInventory) {
+      ReservationService.start();
+    }
+
+    // Release reservations that were never paid or cancelled
+    ReservationSweeper.start();
+
+    const server = app.listen(config.port, () => {
       logger.info(`Server running on port ${config.port}`);
       logger.info(`Dashboard: http://localhost:${config.port}/dashboard`);
       logger.info(`API: http://localhost:${config.port}/api`);
+      logger.info(`Stream: http://localhost:${config.port}/api/stream (WebSocket: ${WEBSOCKET_PATH})`);
       logger.info(`Health: http://localhost:${config.port}/health`);
     });
+
+    // WebSocket equivalent of the SSE stream
+    attachStreamWebSocket(server);
   } catch (error) {
     logger.error('Failed to start server', error as Error);
     process.exit(1);
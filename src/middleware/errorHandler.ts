@@ -11,6 +11,16 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * An optimistic version check failed: the record changed underneath the caller
+ */
+export class VersionConflictError extends AppError {
+  constructor(message: string) {
+    super(409, message);
+    Object.setPrototypeOf(this, VersionConflictError.prototype);
+  }
+}
+
 /**
  * Global error handling middleware
  */
@@ -5,15 +5,87 @@ export interface Event {
   payload: unknown;
   createdAt: string;
   processedAt?: string;
+  sequence?: number; // Per-team feed position, gap-free; unset until the event reaches the team
+  deliveredAt?: string; // When this entry reached the team's feed (feed reads only)
   metadata?: EventMetadata;
+  idempotencyKey?: string;
+  replayed?: boolean; // Set when an idempotency key matched an existing event
+  ack?: EventAck; // The team's acknowledgement (feed reads only)
+}
+
+export type AckOutcome = 'handled' | 'rejected' | 'deferred';
+
+export const ACK_OUTCOMES: AckOutcome[] = ['handled', 'rejected', 'deferred'];
+
+export interface EventAck {
+  eventId: string;
+  teamId: string;
+  outcome: AckOutcome;
+  note?: string;
+  ackedAt: string;
+}
+
+export interface EventAckDTO {
+  eventId: string;
+  outcome?: AckOutcome; // Default: handled
+  note?: string;
+}
+
+export interface EventAckStats {
+  teamId: string;
+  delivered: number; // Distinct events in the team's feed
+  acked: number;
+  unacked: number;
+  byOutcome: Record<AckOutcome, number>;
+}
+
+export interface EventRedelivery {
+  id: string;
+  eventId: string;
+  teamId: string;
+  deliverAt: string;
+  deliveredAt: string | null;
+  sequence: number | null;
+  createdAt: string;
 }
 
 export interface EventMetadata {
-  correlationId?: string;
-  causationId?: string;
+  correlationId?: string; // ID of the event that started the chain (e.g. the order.created)
+  causationId?: string; // ID of the event that directly caused this one
   replayOf?: string;
+  replayBatchId?: string; // Shared by every event of one batch replay
   delayedUntil?: string;
   outOfOrder?: string;
+  logicalSequence?: number; // Intended feed position of an out-of-order event
+  schemaVersion?: number; // Payload schema version (see GET /api/schemas/:type)
+  malformed?: MalformedKind; // Deliberately broken chaos event; teams should reject or quarantine it
+}
+
+export type MalformedKind =
+  | 'missing_fields'
+  | 'wrong_types'
+  | 'unknown_sku'
+  | 'negative_quantity'
+  | 'oversized_payload'
+  | 'unknown_event_type';
+
+export const MALFORMED_KINDS: MalformedKind[] = [
+  'missing_fields',
+  'wrong_types',
+  'unknown_sku',
+  'negative_quantity',
+  'oversized_payload',
+  'unknown_event_type',
+];
+
+export interface MalformedEventReport {
+  teamId: string;
+  kind: MalformedKind;
+  sent: number;
+  rejected: number;
+  deferred: number;
+  handled: number; // Acked as handled: the workflow accepted broken data
+  unacked: number;
 }
 
 export type EventType =
@@ -21,23 +93,102 @@ export type EventType =
   | "order.paid"
   | "order.cancelled"
   | "order.refund_requested"
+  | "order.refunded"
   | "order.dispute_opened"
   | "inventory.restocked"
   | "inventory.shortage_detected"
   | "inventory.manual_adjusted"
+  | "inventory.reservation_expired"
   | "event.duplicate_sent"
   | "event.delayed"
   | "event.out_of_order";
 
+export const EVENT_TYPES: EventType[] = [
+  "order.created",
+  "order.paid",
+  "order.cancelled",
+  "order.refund_requested",
+  "order.refunded",
+  "order.dispute_opened",
+  "inventory.restocked",
+  "inventory.shortage_detected",
+  "inventory.manual_adjusted",
+  "inventory.reservation_expired",
+  "event.duplicate_sent",
+  "event.delayed",
+  "event.out_of_order",
+];
+
 export interface CreateEventDTO {
   teamId: string;
   type: EventType;
   payload: unknown;
   metadata?: EventMetadata;
+  idempotencyKey?: string;
+}
+
+export interface ScheduledEventDTO extends CreateEventDTO {
+  offsetMs?: number; // Explicit position in the schedule (replaces the spread slot)
+}
+
+export interface BatchReplayOptions {
+  teamId: string; // Team whose feed is replayed
+  from?: string; // Delivery time range (inclusive)
+  to?: string;
+  fromSequence?: number; // Sequence range (inclusive)
+  toSequence?: number;
+  types?: EventType[];
+  preserveSpacing?: boolean; // Keep the original gaps between events (default: send all at once)
+  compressionFactor?: number; // Divide the original gaps by this (default: 1)
+  targetTeamId?: string; // Replay into another team's feed (default: the same team)
+}
+
+export interface BatchReplayResult {
+  batchId: string;
+  sourceTeamId: string;
+  targetTeamId: string;
+  events: Event[];
+  schedule: Array<{ eventId: string; replayOf: string; type: EventType; deliverAt: string }>;
+}
+
+export interface EventChainNode {
+  event: Event;
+  children: EventChainNode[]; // Events caused by this one
+}
+
+export interface EventChain {
+  correlationId: string;
+  count: number;
+  roots: EventChainNode[];
+}
+
+export interface DelayScheduleOptions {
+  spreadMs?: number; // Distribute events evenly across this window after the base delay
+  jitterMs?: { min: number; max: number }; // Random extra delay added to each event
+}
+
+export interface EventPageOptions {
+  type?: EventType;
+  since?: string;
+  unacked?: boolean;
+  cursor?: number; // Decoded cursor: sequence of the last entry seen
+  direction?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface EventPage {
+  events: Event[];
+  hasMore: boolean;
+  nextCursor: string | null;
 }
 
 export interface EventFilters {
   type?: EventType;
   since?: string;
+  afterSequence?: number;
+  beforeSequence?: number;
+  order?: 'asc' | 'desc'; // By sequence (default: newest first)
+  unacked?: boolean; // Only events the team has not acknowledged
   limit?: number;
+  includeScheduled?: boolean; // Include delayed events not yet released (admin)
 }
@@ -0,0 +1,123 @@
+import { EventType } from './Event';
+
+export type PayloadSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer';
+
+export const PAYLOAD_SCHEMA_TYPES: PayloadSchemaType[] = ['object', 'array', 'string', 'number', 'integer'];
+
+/**
+ * The subset of JSON Schema used to describe event payloads
+ */
+export interface PayloadSchema {
+  type?: PayloadSchemaType; // Omitted = any value
+  description?: string;
+  required?: string[];
+  properties?: Record<string, PayloadSchema>;
+  items?: PayloadSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  enum?: Array<string | number>;
+  oneOf?: PayloadSchema[]; // Exactly one must match, e.g. per-variant required fields
+}
+
+const ORDER_ITEM_SCHEMA: PayloadSchema = {
+  type: 'object',
+  required: ['sku', 'qty'],
+  properties: {
+    sku: { type: 'string', minLength: 1 },
+    qty: { type: 'integer', minimum: 1 },
+  },
+};
+
+const ORDER_SCHEMA: PayloadSchema = {
+  type: 'object',
+  required: ['orderId', 'items'],
+  properties: {
+    orderId: { type: 'string', minLength: 1 },
+    items: { type: 'array', minItems: 1, items: ORDER_ITEM_SCHEMA },
+    customerName: { type: 'string' },
+  },
+};
+
+const ORDER_PAID_SCHEMA: PayloadSchema = {
+  ...ORDER_SCHEMA,
+  properties: {
+    ...ORDER_SCHEMA.properties,
+    paymentMethod: { type: 'string' },
+    amount: { type: 'number', minimum: 0 },
+  },
+};
+
+const ORDER_CANCELLATION_SCHEMA: PayloadSchema = {
+  type: 'object',
+  required: ['orderId'],
+  properties: {
+    orderId: { type: 'string', minLength: 1 },
+    reason: { type: 'string' },
+  },
+};
+
+const INVENTORY_SCHEMA: PayloadSchema = {
+  type: 'object',
+  required: ['sku', 'quantity'],
+  properties: {
+    sku: { type: 'string', minLength: 1 },
+    quantity: { type: 'integer' },
+    reason: { type: 'string' },
+  },
+};
+
+/**
+ * Version 1 of every event type's payload schema. Later versions are published
+ * at runtime through the schema registry.
+ */
+export const BUILTIN_EVENT_SCHEMAS: Record<EventType, PayloadSchema> = {
+  'order.created': ORDER_SCHEMA,
+  'order.paid': ORDER_PAID_SCHEMA,
+  'order.cancelled': ORDER_CANCELLATION_SCHEMA,
+  'order.refund_requested': ORDER_CANCELLATION_SCHEMA,
+  'order.refunded': {
+    type: 'object',
+    required: ['orderId'],
+    properties: {
+      orderId: { type: 'string', minLength: 1 },
+      amount: { type: 'number', minimum: 0 },
+    },
+  },
+  'order.dispute_opened': ORDER_CANCELLATION_SCHEMA,
+  'inventory.restocked': {
+    ...INVENTORY_SCHEMA,
+    properties: { ...INVENTORY_SCHEMA.properties, quantity: { type: 'integer', minimum: 1 } },
+  },
+  'inventory.manual_adjusted': INVENTORY_SCHEMA,
+  // Version 2 (migration 017) tells order shortages and reorder point crossings apart by reason
+  'inventory.shortage_detected': {
+    type: 'object',
+    required: ['sku'],
+    properties: {
+      sku: { type: 'string', minLength: 1 },
+      available: { type: 'integer' },
+    },
+  },
+  'inventory.reservation_expired': {
+    type: 'object',
+    required: ['orderId', 'sku', 'quantity'],
+    properties: {
+      orderId: { type: 'string', minLength: 1 },
+      sku: { type: 'string', minLength: 1 },
+      quantity: { type: 'integer', minimum: 1 },
+      expiredAt: { type: 'string' },
+    },
+  },
+  // Chaos marker types carry free-form payloads
+  'event.duplicate_sent': {},
+  'event.delayed': {},
+  'event.out_of_order': {},
+};
+
+export interface EventSchemaVersion {
+  type: EventType;
+  version: number;
+  schema: PayloadSchema;
+  createdAt: string | null; // null for the built-in version 1
+}
@@ -6,17 +6,30 @@ export interface Inventory {
   reserved: number;
   available: number; // Computed: stock - reserved
   version: number;
+  reorderPoint: number | null; // Team override, else the SKU's; null = no threshold
   updatedAt: string;
 }
 
+export type InventoryEventType =
+  | 'initialized'
+  | 'restocked'
+  | 'adjusted'
+  | 'reserved'
+  | 'released'
+  | 'expired'
+  | 'committed';
+
 export interface InventoryEvent {
   id: string;
   teamId: string;
   sku: string;
-  type: 'restocked' | 'reserved' | 'released' | 'adjusted';
+  type: InventoryEventType;
   quantity: number;
   previousStock: number;
   newStock: number;
+  previousReserved: number;
+  newReserved: number;
+  orderId?: string; // Order the change was made for (reserve, release, commit, expiry)
   by: 'staff' | 'system' | 'customer_bot';
   createdAt: string;
 }
@@ -33,4 +46,79 @@ export interface ReserveDTO {
   sku: string;
   quantity: number;
   orderId: string;
+  expectedVersion?: number; // Fail with 409 unless the item is at this version
+}
+
+export interface InventoryLineDTO {
+  sku: string;
+  qty: number;
+  expectedVersion?: number;
+}
+
+export type InventoryLineStatus = 'released' | 'committed';
+
+export interface InventoryLineResult {
+  sku: string;
+  qty: number;
+  status: InventoryLineStatus;
+  available: number; // Levels after the request
+  version: number;
+}
+
+export type ReservationStatus = 'reserved' | 'released' | 'committed' | 'expired';
+
+export interface InventoryReservation {
+  id: string;
+  teamId: string;
+  orderId: string;
+  sku: string;
+  quantity: number;
+  status: ReservationStatus;
+  expiresAt: string; // Released by the sweeper if still reserved at this time
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReservationLine {
+  sku: string;
+  qty: number;
+}
+
+export interface OrderReservationLine {
+  sku: string;
+  qty: number;
+  available: number; // After reserving, or as found when the order could not be reserved
+  shortBy: number; // Units missing for this line (0 when it could be covered)
+  version?: number; // Absent when the team has no inventory for the SKU
+}
+
+export interface OrderReservationResult {
+  orderId: string;
+  reserved: boolean; // All lines were reserved; when false none were
+  lines: OrderReservationLine[];
+}
+
+export interface ReservationTtl {
+  category: string;
+  ttlSeconds: number;
+  source: 'category' | 'default'; // Configured for the category, or the platform default
+}
+
+export interface ReorderPoint {
+  sku: string;
+  reorderPoint: number | null;
+  source: 'team' | 'sku' | 'none'; // Team override, SKU default, or no threshold
+}
+
+export interface InventoryLevels {
+  stock: number;
+  reserved: number;
+}
+
+export interface InventoryDrift {
+  teamId: string;
+  sku: string;
+  current: InventoryLevels; // What the inventory table holds
+  rebuilt: InventoryLevels; // What the audit log adds up to
+  entries: number; // Audit rows replayed
 }
@@ -0,0 +1,64 @@
+import { EventType } from './Event';
+
+export type OrderState =
+  | 'created'
+  | 'paid'
+  | 'cancelled'
+  | 'refund_requested'
+  | 'refunded'
+  | 'disputed';
+
+export const ORDER_STATES: OrderState[] = [
+  'created',
+  'paid',
+  'cancelled',
+  'refund_requested',
+  'refunded',
+  'disputed',
+];
+
+export interface OrderItem {
+  sku: string;
+  qty: number;
+}
+
+export interface OrderHistoryEntry {
+  eventId: string;
+  type: EventType;
+  sequence: number;
+  at: string;
+  fromState: OrderState | null;
+  toState: OrderState | null; // Unchanged when the transition was illegal
+  applied: boolean;
+}
+
+export interface OrderAnomaly {
+  eventId: string;
+  type: EventType;
+  fromState: OrderState | null;
+  message: string;
+}
+
+/**
+ * Projection of an order, folded from the team's order.* events
+ */
+export interface Order {
+  orderId: string;
+  teamId: string;
+  state: OrderState | null; // null until an order.created arrives
+  items: OrderItem[];
+  customerName?: string;
+  amount?: number;
+  paymentMethod?: string;
+  correlationId?: string;
+  createdAt: string | null;
+  updatedAt: string;
+  history: OrderHistoryEntry[];
+  anomalies: OrderAnomaly[];
+}
+
+export interface OrderFilters {
+  state?: OrderState;
+  anomalies?: boolean; // Only orders with illegal transitions
+  limit?: number;
+}
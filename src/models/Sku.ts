@@ -0,0 +1,33 @@
+export type SkuStatus = 'active' | 'discontinued';
+
+export const SKU_STATUSES: SkuStatus[] = ['active', 'discontinued'];
+
+// Highest accepted price, well within exact whole-cent arithmetic
+export const MAX_SKU_PRICE = 1000000;
+
+export interface Sku {
+  sku: string;
+  name: string;
+  category: string;
+  price: number; // In currency units, two decimals
+  currency: string; // ISO 4217 code, e.g. EUR
+  status: SkuStatus; // Discontinued SKUs stay in inventory but are no longer ordered
+  initialStock: number; // Stock each team starts with
+}
+
+export interface CreateSkuDTO {
+  sku: string;
+  name: string;
+  category: string;
+  price: number;
+  currency?: string;
+  status?: SkuStatus;
+  initialStock?: number;
+}
+
+export type UpdateSkuDTO = Partial<Omit<CreateSkuDTO, 'sku'>>;
+
+export interface SkuFilters {
+  status?: SkuStatus;
+  category?: string;
+}
@@ -0,0 +1,13 @@
+import { Event } from './Event';
+import { Inventory } from './Inventory';
+import type { Message } from '../services/ChatService';
+
+export type StreamMessageKind = 'event' | 'chat' | 'inventory';
+
+/**
+ * A change pushed to stream subscribers (SSE and WebSocket)
+ */
+export type StreamMessage =
+  | { kind: 'event'; teamId: string; data: Event }
+  | { kind: 'chat'; teamId: string; data: Message }
+  | { kind: 'inventory'; teamId: string; data: Inventory };
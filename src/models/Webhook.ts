@@ -0,0 +1,61 @@
+import { EventMetadata, EventType } from './Event';
+
+export interface WebhookConfig {
+  teamId: string;
+  webhookUrl: string;
+  eventTypes: EventType[] | null; // null = all event types
+  signingSecret: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Body POSTed to a team's webhook for every pushed event
+ */
+export interface EventWebhookEnvelope {
+  kind: 'event';
+  eventId: string;
+  type: EventType;
+  teamId: string;
+  payload: unknown;
+  metadata: EventMetadata;
+  createdAt: string;
+  sentAt: string;
+}
+
+export type WebhookDeliveryKind = 'event' | 'message';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead_letter';
+
+export interface WebhookDelivery {
+  id: string;
+  teamId: string;
+  kind: WebhookDeliveryKind;
+  referenceId: string; // Event or message ID
+  body: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attempt: number;
+  webhookUrl: string | null;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  teamId?: string;
+  limit?: number;
+}
@@ -4,9 +4,17 @@ import EventService from '../services/EventService';
 import InventoryService from '../services/InventoryService';
 import TeamService from '../services/TeamService';
 import ChatService from '../services/ChatService';
+import WebhookService from '../services/WebhookService';
 import CustomerBot from '../services/CustomerBot';
-import { EventType } from '../models/Event';
+import SchemaRegistry from '../services/SchemaRegistry';
+import CatalogService from '../services/CatalogService';
+import { EVENT_TYPES, EventType, MALFORMED_KINDS } from '../models/Event';
+import { WebhookDeliveryStatus } from '../models/Webhook';
+import { CreateSkuDTO, MAX_SKU_PRICE, SKU_STATUSES, SkuStatus, UpdateSkuDTO } from '../models/Sku';
 import { db } from '../database/connection';
+import { findInvalidEventTypes, validateEvent, validateEvents } from '../utils/validation';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 
@@ -21,6 +29,7 @@ router.use(requireAdmin);
 router.post('/events', async (req: AuthRequest, res) => {
   try {
     const { teamId, type, payload, options } = req.body;
+    const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
 
     // Validate request
     if (!teamId || !type || !payload) {
@@ -28,35 +37,151 @@ router.post('/events', async (req: AuthRequest, res) => {
       return;
     }
 
-    // Validate event type
-    const validTypes: EventType[] = [
-      'order.created', 'order.paid', 'order.cancelled',
-      'order.refund_requested', 'order.dispute_opened',
-      'inventory.restocked', 'inventory.shortage_detected',
-      'inventory.manual_adjusted', 'event.duplicate_sent',
-      'event.delayed', 'event.out_of_order'
-    ];
+    // Validate type and payload (admins may skip the payload schema to inject malformed events)
+    const skipValidation = options?.skipValidation === true;
+    const issues = validateEvent({ type, payload }, '', skipValidation);
+    if (issues.length > 0) {
+      res.status(400).json({ error: 'Invalid event', details: issues });
+      return;
+    }
 
-    if (!validTypes.includes(type)) {
-      res.status(400).json({ error: `Invalid event type: ${type}` });
+    if (
+      idempotencyKey !== undefined &&
+      (typeof idempotencyKey !== 'string' || !idempotencyKey || idempotencyKey.length > 255)
+    ) {
+      res.status(400).json({ error: 'Idempotency key must be a non-empty string of at most 255 characters' });
       return;
     }
 
-    // Create event
+    // An explicit cause must be an event of the same team
+    if (options?.causationId) {
+      const cause = await EventService.getEventById(options.causationId);
+      if (!cause || cause.teamId !== teamId) {
+        res.status(400).json({ error: `causationId ${options.causationId} is not an event of team ${teamId}` });
+        return;
+      }
+    }
+
+    if (skipValidation) {
+      logger.audit('Event payload validation skipped', { teamId, type });
+    }
+
+    const delayedUntil = parseDelayUntil(options?.delayUntil);
+    if (delayedUntil === null) {
+      res.status(400).json({ error: 'options.delayUntil must be an ISO 8601 timestamp' });
+      return;
+    }
+
+    // Create event (order events are linked to the order's chain automatically)
+    const metadata = {
+      ...(delayedUntil && { delayedUntil }),
+      ...(options?.causationId && { causationId: options.causationId }),
+    };
     const event = await EventService.createEvent({
       teamId,
       type,
       payload,
-      metadata: options?.delayUntil ? { delayedUntil: options.delayUntil } : undefined,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+      idempotencyKey,
     });
 
-    res.status(201).json(event);
+    if (event.replayed) {
+      res.set('Idempotent-Replayed', 'true');
+    }
+
+    res.status(event.replayed ? 200 : 201).json(event);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Error creating event:', error);
     res.status(500).json({ error: 'Failed to create event' });
   }
 });
 
+/**
+ * POST /api/admin/events/replay
+ * Replay a time or sequence range of a team's feed, optionally into another team
+ */
+router.post('/events/replay', async (req: AuthRequest, res) => {
+  try {
+    const {
+      teamId,
+      from,
+      to,
+      fromSequence,
+      toSequence,
+      types,
+      preserveSpacing = false,
+      compressionFactor = 1,
+      targetTeamId,
+    } = req.body;
+
+    if (!teamId) {
+      res.status(400).json({ error: 'Missing teamId' });
+      return;
+    }
+
+    if (from === undefined && to === undefined && fromSequence === undefined && toSequence === undefined) {
+      res.status(400).json({ error: 'Provide a time range (from, to) or a sequence range (fromSequence, toSequence)' });
+      return;
+    }
+
+    if ([from, to].some(time => time !== undefined && (typeof time !== 'string' || isNaN(Date.parse(time))))) {
+      res.status(400).json({ error: 'from and to must be ISO 8601 timestamps' });
+      return;
+    }
+
+    if ([fromSequence, toSequence].some(seq => seq !== undefined && (!Number.isInteger(seq) || seq < 1))) {
+      res.status(400).json({ error: 'fromSequence and toSequence must be positive integers' });
+      return;
+    }
+
+    const invalidTypes = findInvalidEventTypes(types);
+    if (invalidTypes) {
+      res.status(400).json({ error: `Invalid event types: ${invalidTypes.join(', ')}` });
+      return;
+    }
+
+    if (typeof compressionFactor !== 'number' || compressionFactor <= 0) {
+      res.status(400).json({ error: 'compressionFactor must be a positive number' });
+      return;
+    }
+
+    if (targetTeamId && !(await TeamService.getTeam(targetTeamId))) {
+      res.status(404).json({ error: `Team ${targetTeamId} not found` });
+      return;
+    }
+
+    const result = await EventService.replayBatch({
+      teamId,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+      fromSequence,
+      toSequence,
+      types,
+      preserveSpacing: preserveSpacing === true,
+      compressionFactor,
+      targetTeamId,
+    });
+
+    res.status(201).json({
+      ...result,
+      note: `${result.events.length} events replayed into ${result.targetTeamId} (batch ${result.batchId})`,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error replaying events:', error);
+    res.status(500).json({ error: 'Failed to replay events' });
+  }
+});
+
 /**
  * POST /api/admin/events/:eventId/replay
  * Replay an existing event
@@ -64,7 +189,11 @@ router.post('/events', async (req: AuthRequest, res) => {
 router.post('/events/:eventId/replay', async (req: AuthRequest, res) => {
   try {
     const { eventId } = req.params;
-    const { delayUntil } = req.body;
+    const delayUntil = parseDelayUntil(req.body.delayUntil);
+    if (delayUntil === null) {
+      res.status(400).json({ error: 'delayUntil must be an ISO 8601 timestamp' });
+      return;
+    }
 
     const event = await EventService.replayEvent(eventId, delayUntil);
 
@@ -111,6 +240,11 @@ router.post('/inventory', async (req: AuthRequest, res) => {
       res.status(400).json({ error: `Invalid type: ${type}. Must be 'restock' or 'adjust'` });
     }
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Error modifying inventory:', error);
     res.status(500).json({ error: 'Failed to modify inventory' });
   }
@@ -137,6 +271,268 @@ router.get('/inventory', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/admin/inventory/drift
+ * Items whose levels differ from their audit log (optional ?teamId=)
+ */
+router.get('/inventory/drift', async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.query.teamId as string | undefined;
+
+    const drift = await InventoryService.getInventoryDrift(teamId);
+
+    res.json({ teamId: teamId ?? null, drift, count: drift.length });
+  } catch (error) {
+    console.error('Error checking inventory drift:', error);
+    res.status(500).json({ error: 'Failed to check inventory drift' });
+  }
+});
+
+/**
+ * POST /api/admin/inventory/rebuild
+ * Reset inventory to what the audit log adds up to and report what was corrected
+ */
+router.post('/inventory/rebuild', async (req: AuthRequest, res) => {
+  try {
+    const { teamId } = req.body;
+
+    if (teamId !== undefined && (typeof teamId !== 'string' || !teamId)) {
+      res.status(400).json({ error: 'teamId must be a non-empty string' });
+      return;
+    }
+
+    const corrected = await InventoryService.rebuildFromLog(teamId);
+
+    res.json({ teamId: teamId ?? null, corrected, count: corrected.length });
+  } catch (error) {
+    console.error('Error rebuilding inventory:', error);
+    res.status(500).json({ error: 'Failed to rebuild inventory' });
+  }
+});
+
+/**
+ * GET /api/admin/inventory/reorder-points
+ * SKU reorder points, or one team's effective values with ?teamId=
+ */
+router.get('/inventory/reorder-points', async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.query.teamId as string | undefined;
+
+    const reorderPoints = await InventoryService.getReorderPoints(teamId);
+
+    res.json({ teamId: teamId ?? null, reorderPoints });
+  } catch (error) {
+    console.error('Error fetching reorder points:', error);
+    res.status(500).json({ error: 'Failed to fetch reorder points' });
+  }
+});
+
+/**
+ * POST /api/admin/inventory/reorder-points/:sku
+ * Set a SKU's reorder point, or a team's override with teamId
+ */
+router.post('/inventory/reorder-points/:sku', async (req: AuthRequest, res) => {
+  try {
+    const { sku } = req.params;
+    const { reorderPoint, teamId } = req.body;
+
+    if (!Number.isInteger(reorderPoint) || reorderPoint < 0) {
+      res.status(400).json({ error: 'reorderPoint must be a non-negative integer' });
+      return;
+    }
+
+    if (teamId !== undefined && (typeof teamId !== 'string' || !teamId)) {
+      res.status(400).json({ error: 'teamId must be a non-empty string' });
+      return;
+    }
+
+    await InventoryService.setReorderPoint(sku, reorderPoint, teamId);
+
+    res.json({ sku, teamId: teamId ?? null, reorderPoint });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error setting reorder point:', error);
+    res.status(500).json({ error: 'Failed to set reorder point' });
+  }
+});
+
+/**
+ * DELETE /api/admin/inventory/reorder-points/:sku
+ * Remove a SKU's reorder point, or only a team's override with ?teamId=
+ */
+router.delete('/inventory/reorder-points/:sku', async (req: AuthRequest, res) => {
+  try {
+    const { sku } = req.params;
+    const teamId = req.query.teamId as string | undefined;
+
+    await InventoryService.setReorderPoint(sku, null, teamId);
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error removing reorder point:', error);
+    res.status(500).json({ error: 'Failed to remove reorder point' });
+  }
+});
+
+/**
+ * GET /api/admin/inventory/reservation-ttls
+ * Effective reservation TTL per SKU category
+ */
+router.get('/inventory/reservation-ttls', async (req: AuthRequest, res) => {
+  try {
+    const ttls = await InventoryService.getReservationTtls();
+
+    res.json({ ttls });
+  } catch (error) {
+    console.error('Error fetching reservation TTLs:', error);
+    res.status(500).json({ error: 'Failed to fetch reservation TTLs' });
+  }
+});
+
+/**
+ * POST /api/admin/inventory/reservation-ttls/:category
+ * Set how long reservations of SKUs in a category are held
+ */
+router.post('/inventory/reservation-ttls/:category', async (req: AuthRequest, res) => {
+  try {
+    const { category } = req.params;
+    const { ttlSeconds } = req.body;
+
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+      res.status(400).json({ error: 'ttlSeconds must be a positive integer' });
+      return;
+    }
+
+    await InventoryService.setReservationTtl(category, ttlSeconds);
+
+    res.json({ category, ttlSeconds });
+  } catch (error) {
+    console.error('Error setting reservation TTL:', error);
+    res.status(500).json({ error: 'Failed to set reservation TTL' });
+  }
+});
+
+/**
+ * DELETE /api/admin/inventory/reservation-ttls/:category
+ * Fall back to the default reservation TTL for a category
+ */
+router.delete('/inventory/reservation-ttls/:category', async (req: AuthRequest, res) => {
+  try {
+    const { category } = req.params;
+
+    await InventoryService.setReservationTtl(category, null);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error clearing reservation TTL:', error);
+    res.status(500).json({ error: 'Failed to clear reservation TTL' });
+  }
+});
+
+/**
+ * GET /api/admin/skus
+ * The full catalog (filters: status, category)
+ */
+router.get('/skus', async (req: AuthRequest, res) => {
+  try {
+    const status = req.query.status as SkuStatus | undefined;
+    const category = req.query.category as string | undefined;
+
+    if (status !== undefined && !SKU_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${SKU_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const skus = await CatalogService.getSkus({ status, category });
+
+    res.json({ skus, count: skus.length });
+  } catch (error) {
+    console.error('Error fetching SKUs:', error);
+    res.status(500).json({ error: 'Failed to fetch SKUs' });
+  }
+});
+
+/**
+ * POST /api/admin/skus
+ * Add a SKU to the catalog; every team's inventory gets it
+ */
+router.post('/skus', async (req: AuthRequest, res) => {
+  try {
+    const fields = parseSkuFields(req.body, false);
+    if (typeof fields === 'string') {
+      res.status(400).json({ error: fields });
+      return;
+    }
+
+    const sku = await CatalogService.createSku(fields as CreateSkuDTO);
+
+    res.status(201).json(sku);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error creating SKU:', error);
+    res.status(500).json({ error: 'Failed to create SKU' });
+  }
+});
+
+/**
+ * PUT /api/admin/skus/:sku
+ * Change any of a SKU's name, category, price, currency, status or initialStock
+ */
+router.put('/skus/:sku', async (req: AuthRequest, res) => {
+  try {
+    const fields = parseSkuFields(req.body, true);
+    if (typeof fields === 'string') {
+      res.status(400).json({ error: fields });
+      return;
+    }
+
+    const sku = await CatalogService.updateSku(req.params.sku, fields);
+
+    res.json(sku);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error updating SKU:', error);
+    res.status(500).json({ error: 'Failed to update SKU' });
+  }
+});
+
+/**
+ * DELETE /api/admin/skus/:sku
+ * Remove a SKU no team has used yet (discontinue it otherwise)
+ */
+router.delete('/skus/:sku', async (req: AuthRequest, res) => {
+  try {
+    await CatalogService.deleteSku(req.params.sku);
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error deleting SKU:', error);
+    res.status(500).json({ error: 'Failed to delete SKU' });
+  }
+});
+
 /**
  * GET /api/admin/teams
  * List all teams
@@ -174,6 +570,33 @@ router.post('/teams', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * PUT /api/admin/teams/:teamId/inventory-write
+ * Grant or revoke a team's write:inventory scope; returns the team with its new API key
+ */
+router.put('/teams/:teamId/inventory-write', async (req: AuthRequest, res) => {
+  try {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+
+    const team = await TeamService.setInventoryWrite(req.params.teamId, enabled);
+
+    if (!team) {
+      res.status(404).json({ error: 'Team not found' });
+      return;
+    }
+
+    res.json(team);
+  } catch (error) {
+    console.error('Error setting inventory write access:', error);
+    res.status(500).json({ error: 'Failed to set inventory write access' });
+  }
+});
+
 /**
  * POST /api/admin/mode
  * Switch platform mode (development <-> judging)
@@ -232,7 +655,7 @@ router.get('/audit/:type', async (req: AuthRequest, res) => {
       // Get events from all teams
       const teams = await TeamService.getAllTeams();
       for (const team of teams) {
-        const events = await EventService.getEvents(team.teamId, { limit });
+        const events = await EventService.getEvents(team.teamId, { limit, includeScheduled: true });
         logs.push(...events);
       }
     } else if (type === 'inventory') {
@@ -252,6 +675,60 @@ router.get('/audit/:type', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/admin/acks
+ * Per-team acknowledgement counts (optionally for one team)
+ */
+router.get('/acks', async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.query.teamId as string | undefined;
+
+    const stats = await EventService.getAckStats(teamId);
+
+    res.json({ stats });
+  } catch (error) {
+    console.error('Error fetching ack stats:', error);
+    res.status(500).json({ error: 'Failed to fetch ack stats' });
+  }
+});
+
+/**
+ * POST /api/admin/schemas/:type
+ * Publish a new payload schema version for an event type
+ */
+router.post('/schemas/:type', async (req: AuthRequest, res) => {
+  try {
+    const type = req.params.type as EventType;
+    const { schema } = req.body;
+
+    if (!EVENT_TYPES.includes(type)) {
+      res.status(404).json({ error: `Unknown event type: ${type}` });
+      return;
+    }
+
+    if (!schema) {
+      res.status(400).json({ error: 'Missing required field: schema' });
+      return;
+    }
+
+    const entry = SchemaRegistry.publishVersion(type, schema);
+
+    res.status(201).json({
+      type,
+      version: entry.version,
+      schema: SchemaRegistry.toJsonSchema(entry),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error publishing schema:', error);
+    res.status(500).json({ error: 'Failed to publish schema' });
+  }
+});
+
 /**
  * POST /api/admin/messages
  * Send message to team or broadcast
@@ -306,7 +783,7 @@ router.get('/messages', async (req: AuthRequest, res) => {
  */
 router.get('/webhooks', async (req: AuthRequest, res) => {
   try {
-    const webhooks = ChatService.getAllWebhooks();
+    const webhooks = WebhookService.getAllWebhooks();
     res.json({ webhooks });
   } catch (error) {
     console.error('Error fetching webhooks:', error);
@@ -314,19 +791,117 @@ router.get('/webhooks', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * GET /api/admin/webhooks/deliveries
+ * List webhook deliveries (dead letters by default)
+ */
+router.get('/webhooks/deliveries', async (req: AuthRequest, res) => {
+  try {
+    const status = (req.query.status as string | undefined) || 'dead_letter';
+    const teamId = req.query.teamId as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+
+    const validStatuses = ['pending', 'delivered', 'dead_letter'];
+    if (!validStatuses.includes(status)) {
+      res.status(400).json({ error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` });
+      return;
+    }
+
+    const deliveries = await WebhookService.getDeliveries({
+      status: status as WebhookDeliveryStatus,
+      teamId,
+      limit,
+    });
+
+    res.json({ deliveries, count: deliveries.length });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+/**
+ * GET /api/admin/webhooks/deliveries/:deliveryId
+ * Get a webhook delivery with its attempt history
+ */
+router.get('/webhooks/deliveries/:deliveryId', async (req: AuthRequest, res) => {
+  try {
+    const { deliveryId } = req.params;
+
+    const delivery = await WebhookService.getDelivery(deliveryId);
+
+    if (!delivery) {
+      res.status(404).json({ error: 'Webhook delivery not found' });
+      return;
+    }
+
+    const attempts = await WebhookService.getDeliveryAttempts(deliveryId);
+
+    res.json({ ...delivery, attempts });
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook delivery' });
+  }
+});
+
+/**
+ * POST /api/admin/webhooks/deliveries/redeliver
+ * Requeue all dead-lettered deliveries (optionally for one team); the delivery worker sends them
+ */
+router.post('/webhooks/deliveries/redeliver', async (req: AuthRequest, res) => {
+  try {
+    const { teamId } = req.body;
+
+    const count = WebhookService.requeueDeadLetters(teamId);
+
+    res.status(202).json({ count });
+  } catch (error) {
+    console.error('Error redelivering webhooks:', error);
+    res.status(500).json({ error: 'Failed to redeliver webhooks' });
+  }
+});
+
+/**
+ * POST /api/admin/webhooks/deliveries/:deliveryId/redeliver
+ * Redeliver a single webhook delivery
+ */
+router.post('/webhooks/deliveries/:deliveryId/redeliver', async (req: AuthRequest, res) => {
+  try {
+    const { deliveryId } = req.params;
+
+    if (!(await WebhookService.getDelivery(deliveryId))) {
+      res.status(404).json({ error: 'Webhook delivery not found' });
+      return;
+    }
+
+    const delivery = await WebhookService.redeliver(deliveryId);
+
+    res.json(delivery);
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
+
 /**
  * POST /api/admin/webhooks
  * Set webhook URL for a team
  */
 router.post('/webhooks', async (req: AuthRequest, res) => {
   try {
-    const { teamId, webhookUrl } = req.body;
+    const { teamId, webhookUrl, eventTypes } = req.body;
 
     if (!teamId || !webhookUrl) {
       res.status(400).json({ error: 'Missing required fields: teamId, webhookUrl' });
       return;
     }
 
+    const invalidTypes = findInvalidEventTypes(eventTypes);
+    if (invalidTypes) {
+      res.status(400).json({ error: `Invalid event types: ${invalidTypes.join(', ')}` });
+      return;
+    }
+
     // Validate URL
     try {
       new URL(webhookUrl);
@@ -335,15 +910,45 @@ router.post('/webhooks', async (req: AuthRequest, res) => {
       return;
     }
 
-    ChatService.setWebhookUrl(teamId, webhookUrl);
+    WebhookService.setWebhookUrl(teamId, webhookUrl, eventTypes);
 
-    res.json({ message: 'Webhook URL set successfully', teamId, webhookUrl });
+    const webhook = WebhookService.getWebhookConfig(teamId)!;
+
+    res.json({
+      message: 'Webhook URL set successfully',
+      teamId,
+      webhookUrl,
+      eventTypes: webhook.eventTypes,
+      signingSecret: webhook.signingSecret,
+    });
   } catch (error) {
     console.error('Error setting webhook:', error);
     res.status(500).json({ error: 'Failed to set webhook URL' });
   }
 });
 
+/**
+ * POST /api/admin/webhooks/:teamId/secret
+ * Rotate the signing secret for a team's webhook
+ */
+router.post('/webhooks/:teamId/secret', async (req: AuthRequest, res) => {
+  try {
+    const { teamId } = req.params;
+
+    if (!WebhookService.getWebhookConfig(teamId)) {
+      res.status(404).json({ error: 'No webhook configured for team' });
+      return;
+    }
+
+    const signingSecret = WebhookService.rotateSigningSecret(teamId);
+
+    res.json({ message: 'Signing secret rotated successfully', teamId, signingSecret });
+  } catch (error) {
+    console.error('Error rotating signing secret:', error);
+    res.status(500).json({ error: 'Failed to rotate signing secret' });
+  }
+});
+
 /**
  * DELETE /api/admin/webhooks/:teamId
  * Remove webhook URL for a team
@@ -352,7 +957,7 @@ router.delete('/webhooks/:teamId', async (req: AuthRequest, res) => {
   try {
     const { teamId } = req.params;
 
-    ChatService.removeWebhookUrl(teamId);
+    WebhookService.removeWebhookUrl(teamId);
 
     res.json({ message: 'Webhook URL removed successfully', teamId });
   } catch (error) {
@@ -369,9 +974,10 @@ router.get('/webhooks/:teamId', async (req: AuthRequest, res) => {
   try {
     const { teamId } = req.params;
 
-    const webhookUrl = ChatService.getTeamWebhookUrl(teamId);
+    const webhookUrl = WebhookService.getWebhookUrl(teamId);
+    const eventTypes = WebhookService.getWebhookConfig(teamId)?.eventTypes ?? null;
 
-    res.json({ teamId, webhookUrl });
+    res.json({ teamId, webhookUrl, eventTypes });
   } catch (error) {
     console.error('Error fetching webhook:', error);
     res.status(500).json({ error: 'Failed to fetch webhook URL' });
@@ -419,21 +1025,49 @@ router.post('/bot/start', async (req: AuthRequest, res) => {
 
 /**
  * POST /api/admin/chaos/duplicate
- * Send a duplicate event
+ * Redeliver an existing event (same event ID), optionally several times with spacing
  */
 router.post('/chaos/duplicate', async (req: AuthRequest, res) => {
   try {
-    const { eventId } = req.body;
+    const { eventId, count = 1, intervalSeconds = 0 } = req.body;
 
     if (!eventId) {
       res.status(400).json({ error: 'Missing eventId' });
       return;
     }
 
-    const event = await EventService.sendDuplicateEvent(eventId);
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+      res.status(400).json({ error: 'count must be an integer between 1 and 100' });
+      return;
+    }
+
+    // The last duplicate is due at most a day out, so every deliverAt is a valid date
+    if (
+      typeof intervalSeconds !== 'number' ||
+      !Number.isFinite(intervalSeconds) ||
+      intervalSeconds < 0 ||
+      intervalSeconds * (count - 1) > 24 * 3600
+    ) {
+      res.status(400).json({ error: 'intervalSeconds must be a non-negative number spreading the duplicates over at most 86400 seconds' });
+      return;
+    }
+
+    const event = await EventService.getEventById(eventId);
+
+    if (!event) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    const redeliveries = await EventService.sendDuplicateEvent(eventId, count, intervalSeconds * 1000);
 
-    res.json({ event, note: 'Duplicate event returned (idempotent)' });
+    res.json({ event, redeliveries, note: `Event ${eventId} will be delivered ${count} more time(s)` });
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Error sending duplicate:', error);
     res.status(500).json({ error: 'Failed to send duplicate' });
   }
@@ -445,13 +1079,19 @@ router.post('/chaos/duplicate', async (req: AuthRequest, res) => {
  */
 router.post('/chaos/out-of-order', async (req: AuthRequest, res) => {
   try {
-    const { teamId, events } = req.body;
+    const { teamId, events, skipValidation } = req.body;
 
-    if (!teamId || !events) {
+    if (!teamId || !Array.isArray(events)) {
       res.status(400).json({ error: 'Missing teamId or events' });
       return;
     }
 
+    const issues = validateEvents(events, skipValidation === true);
+    if (issues.length > 0) {
+      res.status(400).json({ error: 'Invalid events', details: issues });
+      return;
+    }
+
     const created = await EventService.sendOutOfOrderEvents(teamId, events);
 
     res.json({ events: created, note: 'Events sent out of order' });
@@ -461,27 +1101,225 @@ router.post('/chaos/out-of-order', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * POST /api/admin/chaos/malformed
+ * Send malformed / poison events (missing fields, wrong types, unknown SKUs, ...)
+ */
+router.post('/chaos/malformed', async (req: AuthRequest, res) => {
+  try {
+    const { teamId, kinds = MALFORMED_KINDS, count = 1 } = req.body;
+
+    if (!teamId) {
+      res.status(400).json({ error: 'Missing teamId' });
+      return;
+    }
+
+    if (!Array.isArray(kinds) || kinds.length === 0 || kinds.some(kind => !MALFORMED_KINDS.includes(kind))) {
+      res.status(400).json({ error: `kinds must be a non-empty array of: ${MALFORMED_KINDS.join(', ')}` });
+      return;
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > 20) {
+      res.status(400).json({ error: 'count must be an integer between 1 and 20' });
+      return;
+    }
+
+    const created = await EventService.sendMalformedEvents(teamId, kinds, count);
+
+    res.json({ events: created, note: `${created.length} malformed events sent` });
+  } catch (error) {
+    console.error('Error sending malformed events:', error);
+    res.status(500).json({ error: 'Failed to send malformed events' });
+  }
+});
+
+/**
+ * GET /api/admin/chaos/malformed/report
+ * How each team acknowledged the malformed events it received
+ */
+router.get('/chaos/malformed/report', async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.query.teamId as string | undefined;
+
+    const report = await EventService.getMalformedReport(teamId);
+
+    res.json({ report });
+  } catch (error) {
+    console.error('Error fetching malformed event report:', error);
+    res.status(500).json({ error: 'Failed to fetch malformed event report' });
+  }
+});
+
 /**
  * POST /api/admin/chaos/delayed
- * Create delayed events
+ * Schedule delayed events (returns immediately with the delivery schedule)
  */
 router.post('/chaos/delayed', async (req: AuthRequest, res) => {
   try {
-    const { teamId, events, delayMinutes = 5 } = req.body;
+    const { teamId, events, delayMinutes = 5, spreadSeconds, jitterSeconds, skipValidation } = req.body;
 
-    if (!teamId || !events) {
+    if (!teamId || !Array.isArray(events)) {
       res.status(400).json({ error: 'Missing teamId or events' });
       return;
     }
 
+    const issues = validateEvents(events, skipValidation === true);
+    if (issues.length > 0) {
+      res.status(400).json({ error: 'Invalid events', details: issues });
+      return;
+    }
+
+    // Up to a day, so every delayedUntil is a valid date
+    const withinDay = (n: unknown, max: number) =>
+      typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= max;
+
+    if (!withinDay(delayMinutes, 24 * 60)) {
+      res.status(400).json({ error: 'delayMinutes must be a number between 0 and 1440' });
+      return;
+    }
+
+    if (spreadSeconds !== undefined && !withinDay(spreadSeconds, 24 * 3600)) {
+      res.status(400).json({ error: 'spreadSeconds must be a number between 0 and 86400' });
+      return;
+    }
+
+    if (events.some((event: any) => event?.offsetSeconds !== undefined && !withinDay(event.offsetSeconds, 24 * 3600))) {
+      res.status(400).json({ error: 'offsetSeconds must be a number between 0 and 86400' });
+      return;
+    }
+
+    // jitterSeconds: max extra delay (number) or a [min, max] range
+    let jitterRange: number[] | undefined;
+    if (jitterSeconds !== undefined) {
+      jitterRange = Array.isArray(jitterSeconds) ? jitterSeconds : [0, jitterSeconds];
+    }
+
+    if (
+      jitterRange &&
+      (jitterRange.length !== 2 ||
+        jitterRange.some(n => !withinDay(typeof n === 'number' ? Math.abs(n) : n, 24 * 3600)) ||
+        jitterRange[0] > jitterRange[1])
+    ) {
+      res.status(400).json({ error: 'jitterSeconds must be a number or a [min, max] range within 86400 seconds' });
+      return;
+    }
+
+    // A negative jitter may pull an event earlier, but not before now
+    if (jitterRange && delayMinutes * 60 + jitterRange[0] < 0) {
+      res.status(400).json({ error: 'jitterSeconds minimum must not be earlier than the base delay' });
+      return;
+    }
+
     const delayMs = delayMinutes * 60 * 1000;
-    const created = await EventService.createDelayedEvents(teamId, events, delayMs);
+    const created = await EventService.createDelayedEvents(
+      teamId,
+      events.map(({ offsetSeconds, ...event }: any) => ({
+        ...event,
+        offsetMs: offsetSeconds !== undefined ? offsetSeconds * 1000 : undefined,
+      })),
+      delayMs,
+      {
+        spreadMs: spreadSeconds !== undefined ? spreadSeconds * 1000 : undefined,
+        jitterMs: jitterRange ? { min: jitterRange[0] * 1000, max: jitterRange[1] * 1000 } : undefined,
+      }
+    );
 
-    res.json({ events: created, note: `Events delayed by ${delayMinutes} minutes` });
+    const schedule = created
+      .map(event => ({ eventId: event.id, type: event.type, delayedUntil: event.metadata!.delayedUntil! }))
+      .sort((a, b) => a.delayedUntil.localeCompare(b.delayedUntil));
+
+    res.status(202).json({
+      events: created,
+      schedule,
+      note: `${created.length} events scheduled between ${schedule[0]?.delayedUntil} and ${schedule[schedule.length - 1]?.delayedUntil}`,
+    });
   } catch (error) {
     console.error('Error creating delayed events:', error);
     res.status(500).json({ error: 'Failed to create delayed events' });
   }
 });
 
+/**
+ * An optional delayUntil, normalized to UTC so the scheduler's string
+ * comparison releases it on time. Returns undefined when it was not given and
+ * null when it is not an ISO 8601 date or timestamp.
+ */
+function parseDelayUntil(value: unknown): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(Date.parse(value))) {
+    return null;
+  }
+
+  return new Date(value).toISOString();
+}
+
+/**
+ * Validate catalog fields from a request body. For a create every field but
+ * currency, status and initialStock is required; for an update any subset.
+ * Returns only the fields that were given, or an error message.
+ */
+function parseSkuFields(body: any, partial: boolean): UpdateSkuDTO & { sku?: string } | string {
+  const fields: UpdateSkuDTO & { sku?: string } = {};
+
+  if (!partial) {
+    if (typeof body?.sku !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(body.sku)) {
+      return 'sku must be 1-64 letters, digits, dashes or underscores';
+    }
+    fields.sku = body.sku;
+
+    for (const key of ['name', 'category', 'price']) {
+      if (body[key] === undefined) {
+        return `Missing required field: ${key}`;
+      }
+    }
+  }
+
+  for (const key of ['name', 'category'] as const) {
+    if (body?.[key] === undefined) continue;
+    if (typeof body[key] !== 'string' || body[key].trim().length === 0) {
+      return `${key} must be a non-empty string`;
+    }
+    fields[key] = body[key].trim();
+  }
+
+  if (body?.price !== undefined) {
+    // Whole cents, allowing for float error (19.99 * 100 is 1998.9999999999998)
+    if (
+      typeof body.price !== 'number' ||
+      body.price < 0 ||
+      body.price > MAX_SKU_PRICE ||
+      Math.abs(body.price * 100 - Math.round(body.price * 100)) > 1e-6
+    ) {
+      return `price must be a number between 0 and ${MAX_SKU_PRICE} with at most two decimals`;
+    }
+    fields.price = body.price;
+  }
+
+  if (body?.currency !== undefined) {
+    if (typeof body.currency !== 'string' || !/^[A-Z]{3}$/.test(body.currency)) {
+      return 'currency must be a three-letter ISO 4217 code, e.g. EUR';
+    }
+    fields.currency = body.currency;
+  }
+
+  if (body?.status !== undefined) {
+    if (!SKU_STATUSES.includes(body.status)) {
+      return `status must be one of: ${SKU_STATUSES.join(', ')}`;
+    }
+    fields.status = body.status;
+  }
+
+  if (body?.initialStock !== undefined) {
+    if (!Number.isInteger(body.initialStock) || body.initialStock < 0) {
+      return 'initialStock must be a non-negative integer';
+    }
+    fields.initialStock = body.initialStock;
+  }
+
+  return fields;
+}
+
 export default router;
@@ -4,9 +4,26 @@ import EventService from '../services/EventService';
 import InventoryService from '../services/InventoryService';
 import ChatService from '../services/ChatService';
 import TeamService from '../services/TeamService';
+import WebhookService from '../services/WebhookService';
+import SchemaRegistry from '../services/SchemaRegistry';
+import OrderService from '../services/OrderService';
+import CatalogService from '../services/CatalogService';
+import { findInvalidEventTypes, validateInventoryLines, ValidationIssue } from '../utils/validation';
+import { decodeCursor } from '../utils/cursor';
+import { ACK_OUTCOMES, EVENT_TYPES, EventAckDTO, EventType } from '../models/Event';
+import { ORDER_STATES, OrderState } from '../models/Order';
+import { InventoryLineDTO } from '../models/Inventory';
+import { SKU_STATUSES, SkuStatus } from '../models/Sku';
+import { getPlatformMode } from '../middleware/mode';
+import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 
+const MAX_PAGE_SIZE = 1000;
+const MAX_BULK_ACKS = 500;
+const MAX_ACK_NOTE_LENGTH = 1000;
+const MAX_INVENTORY_LINES = 100;
+
 // Apply authentication to all routes
 router.use(authMiddleware);
 
@@ -30,28 +47,185 @@ router.get('/inventory', requireScope('read:inventory'), async (req: AuthRequest
   }
 });
 
+/**
+ * GET /api/catalog
+ * The SKU catalog with prices (filters: status, category)
+ */
+router.get('/catalog', requireScope('read:inventory'), async (req: AuthRequest, res) => {
+  try {
+    const status = req.query.status as SkuStatus | undefined;
+    const category = req.query.category as string | undefined;
+
+    if (status !== undefined && !SKU_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${SKU_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const skus = await CatalogService.getSkus({ status, category });
+
+    res.json({ skus, count: skus.length });
+  } catch (error) {
+    console.error('Error fetching catalog:', error);
+    res.status(500).json({ error: 'Failed to fetch catalog' });
+  }
+});
+
+/**
+ * POST /api/inventory/reserve
+ * Reserve stock for all of an order's line items, or none of them
+ */
+router.post('/inventory/reserve', requireScope('write:inventory'), async (req: AuthRequest, res) => {
+  try {
+    const request = await parseInventoryWrite(req);
+    if ('error' in request) {
+      res.status(request.status).json({ error: request.error, details: request.details });
+      return;
+    }
+
+    const result = await InventoryService.reserveOrder(request.teamId, request.orderId, request.items);
+
+    if (!result.reserved) {
+      res.status(409).json({ error: 'Insufficient stock', ...result });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error reserving inventory:', error);
+    res.status(500).json({ error: 'Failed to reserve inventory' });
+  }
+});
+
+/**
+ * POST /api/inventory/release
+ * Release stock an order holds back to available
+ */
+router.post('/inventory/release', requireScope('write:inventory'), async (req: AuthRequest, res) => {
+  try {
+    const request = await parseInventoryWrite(req);
+    if ('error' in request) {
+      res.status(request.status).json({ error: request.error, details: request.details });
+      return;
+    }
+
+    const lines = await InventoryService.settleOrderLines(request.teamId, request.orderId, request.items, 'released');
+
+    res.json({ orderId: request.orderId, lines });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error releasing inventory:', error);
+    res.status(500).json({ error: 'Failed to release inventory' });
+  }
+});
+
+/**
+ * POST /api/inventory/commit
+ * Commit stock an order holds: it ships, leaving stock and reserved
+ */
+router.post('/inventory/commit', requireScope('write:inventory'), async (req: AuthRequest, res) => {
+  try {
+    const request = await parseInventoryWrite(req);
+    if ('error' in request) {
+      res.status(request.status).json({ error: request.error, details: request.details });
+      return;
+    }
+
+    const lines = await InventoryService.settleOrderLines(request.teamId, request.orderId, request.items, 'committed');
+
+    res.json({ orderId: request.orderId, lines });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error committing inventory:', error);
+    res.status(500).json({ error: 'Failed to commit inventory' });
+  }
+});
+
 /**
  * GET /api/events
- * Get events for the team with optional filters
+ * Get events for the team with optional filters. Pages are keyed by an opaque
+ * cursor so consecutive pages never skip or repeat entries.
  */
 router.get('/events', requireScope('read:events'), async (req: AuthRequest, res) => {
   try {
     const teamId = req.teamId!;
     const type = req.query.type as string | undefined;
     const since = req.query.since as string | undefined;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    const unacked = req.query.unacked === 'true';
+    const cursorParam = req.query.cursor as string | undefined;
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : undefined;
+    const afterSequence = req.query.afterSequence !== undefined
+      ? parseInt(req.query.afterSequence as string)
+      : undefined;
+    // afterSequence polls for newer entries, so it pages oldest first
+    const direction = (req.query.direction as string | undefined) || (afterSequence !== undefined ? 'asc' : 'desc');
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+
+    if (direction !== 'asc' && direction !== 'desc') {
+      res.status(400).json({ error: 'direction must be "asc" or "desc"' });
+      return;
+    }
+
+    if (afterSequence !== undefined && (isNaN(afterSequence) || afterSequence < 0)) {
+      res.status(400).json({ error: 'afterSequence must be a non-negative integer' });
+      return;
+    }
+
+    if (afterSequence !== undefined && direction !== 'asc') {
+      res.status(400).json({ error: 'afterSequence only works with direction "asc"' });
+      return;
+    }
+
+    if (cursorParam !== undefined && afterSequence !== undefined) {
+      res.status(400).json({ error: 'Use either cursor or afterSequence, not both' });
+      return;
+    }
+
+    let cursor = afterSequence;
+    if (cursorParam !== undefined) {
+      const decoded = decodeCursor(cursorParam);
+      if (decoded === null) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+      cursor = decoded;
+    }
 
-    const events = await EventService.getEvents(teamId, {
+    const page = await EventService.getEventPage(teamId, {
       type: type as any,
       since,
+      unacked,
+      cursor,
+      direction,
       limit,
     });
 
+    // nextSince is kept for clients still polling by timestamp
+    const newest = direction === 'desc' ? page.events[0] : page.events[page.events.length - 1];
+
     res.json({
-      events,
+      events: page.events,
       pagination: {
-        hasMore: events.length === (limit || 100),
-        nextSince: events.length > 0 ? events[events.length - 1].createdAt : undefined,
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor,
+        direction,
+        nextSince: newest?.deliveredAt,
       },
     });
   } catch (error) {
@@ -60,6 +234,217 @@ router.get('/events', requireScope('read:events'), async (req: AuthRequest, res)
   }
 });
 
+/**
+ * Validate the body of an inventory write: { orderId, items: [{ sku, qty, expectedVersion? }] }.
+ * Admin tokens name the team in the body. A team token must still be backed by
+ * the team's grant, so keys issued before staff revoked it stop working. In
+ * judging mode stock only moves for orders the team actually received.
+ */
+async function parseInventoryWrite(
+  req: AuthRequest
+): Promise<{ teamId: string; orderId: string; items: InventoryLineDTO[] } | { status: number; error: string; details?: ValidationIssue[] }> {
+  const teamId = req.teamId || req.body.teamId;
+  const { orderId, items } = req.body;
+
+  if (!teamId) {
+    return { status: 400, error: 'Missing teamId' };
+  }
+
+  if (req.teamId && !(await TeamService.getTeam(req.teamId))?.inventoryWrite) {
+    return { status: 403, error: 'write:inventory has been revoked for this team' };
+  }
+
+  if (typeof orderId !== 'string' || orderId.length === 0) {
+    return { status: 400, error: 'orderId is required' };
+  }
+
+  if (Array.isArray(items) && items.length > MAX_INVENTORY_LINES) {
+    return { status: 400, error: `items must contain at most ${MAX_INVENTORY_LINES} lines` };
+  }
+
+  const issues = validateInventoryLines(items);
+  if (issues.length > 0) {
+    return { status: 400, error: 'Invalid line items', details: issues };
+  }
+
+  if (getPlatformMode() === 'judging' && !(await OrderService.getOrder(teamId, orderId))) {
+    return { status: 404, error: `Order not found: ${orderId}` };
+  }
+
+  return {
+    teamId,
+    orderId,
+    items: items.map((item: InventoryLineDTO) => ({ sku: item.sku, qty: item.qty, expectedVersion: item.expectedVersion })),
+  };
+}
+
+/**
+ * Validate one acknowledgement from a request body
+ */
+function parseAck(body: any, eventId: unknown): EventAckDTO | string {
+  if (typeof eventId !== 'string' || eventId.length === 0) {
+    return 'eventId is required';
+  }
+
+  if (body?.outcome !== undefined && !ACK_OUTCOMES.includes(body.outcome)) {
+    return `outcome must be one of: ${ACK_OUTCOMES.join(', ')}`;
+  }
+
+  if (body?.note !== undefined && (typeof body.note !== 'string' || body.note.length > MAX_ACK_NOTE_LENGTH)) {
+    return `note must be a string of at most ${MAX_ACK_NOTE_LENGTH} characters`;
+  }
+
+  return { eventId, outcome: body?.outcome, note: body?.note };
+}
+
+/**
+ * POST /api/events/ack
+ * Acknowledge several events at once
+ */
+router.post('/events/ack', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.teamId!;
+    const { acks } = req.body;
+
+    if (!Array.isArray(acks) || acks.length === 0 || acks.length > MAX_BULK_ACKS) {
+      res.status(400).json({ error: `acks must be an array of 1 to ${MAX_BULK_ACKS} acknowledgements` });
+      return;
+    }
+
+    const parsed: EventAckDTO[] = [];
+    for (const [index, ack] of acks.entries()) {
+      const result = parseAck(ack, ack?.eventId);
+      if (typeof result === 'string') {
+        res.status(400).json({ error: `acks[${index}]: ${result}` });
+        return;
+      }
+      parsed.push(result);
+    }
+
+    const result = await EventService.acknowledgeEvents(teamId, parsed);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error acknowledging events:', error);
+    res.status(500).json({ error: 'Failed to acknowledge events' });
+  }
+});
+
+/**
+ * POST /api/events/:id/ack
+ * Acknowledge that the team's workflow processed an event
+ */
+router.post('/events/:id/ack', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.teamId!;
+    const ack = parseAck(req.body, req.params.id);
+
+    if (typeof ack === 'string') {
+      res.status(400).json({ error: ack });
+      return;
+    }
+
+    const result = await EventService.acknowledgeEvent(teamId, ack);
+
+    if (!result) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error acknowledging event:', error);
+    res.status(500).json({ error: 'Failed to acknowledge event' });
+  }
+});
+
+/**
+ * GET /api/events/:id/chain
+ * The causal tree of events the event belongs to (same correlationId)
+ */
+router.get('/events/:id/chain', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    // Admin tokens have no team and see every event
+    const chain = await EventService.getEventChain(req.params.id, req.teamId || null);
+
+    if (!chain) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    res.json(chain);
+  } catch (error) {
+    console.error('Error fetching event chain:', error);
+    res.status(500).json({ error: 'Failed to fetch event chain' });
+  }
+});
+
+/**
+ * GET /api/orders
+ * Current state of the team's orders, folded from its order events
+ */
+router.get('/orders', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    // Admin tokens pick the team with ?teamId=
+    const teamId = req.teamId || (req.query.teamId as string | undefined);
+    const state = req.query.state as OrderState | undefined;
+    const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : undefined;
+
+    if (!teamId) {
+      res.status(400).json({ error: 'Missing teamId' });
+      return;
+    }
+
+    if (state !== undefined && !ORDER_STATES.includes(state)) {
+      res.status(400).json({ error: `state must be one of: ${ORDER_STATES.join(', ')}` });
+      return;
+    }
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+
+    const orders = await OrderService.getOrders(teamId, {
+      state,
+      anomalies: req.query.anomalies === 'true',
+      limit,
+    });
+
+    res.json({ orders, count: orders.length });
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    res.status(500).json({ error: 'Failed to fetch orders' });
+  }
+});
+
+/**
+ * GET /api/orders/:id
+ * Current state of one order with its event history and anomalies
+ */
+router.get('/orders/:id', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.teamId || (req.query.teamId as string | undefined);
+
+    if (!teamId) {
+      res.status(400).json({ error: 'Missing teamId' });
+      return;
+    }
+
+    const order = await OrderService.getOrder(teamId, req.params.id);
+
+    if (!order) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+
+    res.json(order);
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    res.status(500).json({ error: 'Failed to fetch order' });
+  }
+});
+
 /**
  * POST /api/chat
  * Send a chat message
@@ -109,6 +494,118 @@ router.get('/chat', requireScope('read:events'), async (req: AuthRequest, res) =
   }
 });
 
+/**
+ * GET /api/webhook
+ * Get the team's webhook configuration
+ */
+router.get('/webhook', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.teamId!;
+    const webhook = WebhookService.getWebhookConfig(teamId);
+
+    res.json({
+      teamId,
+      webhookUrl: WebhookService.getWebhookUrl(teamId),
+      eventTypes: webhook?.eventTypes ?? null,
+      signingSecret: webhook?.signingSecret ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook' });
+  }
+});
+
+/**
+ * PUT /api/webhook/event-types
+ * Choose which event types are pushed to the team's webhook (null = all)
+ */
+router.put('/webhook/event-types', requireScope('write:webhook'), async (req: AuthRequest, res) => {
+  try {
+    const teamId = req.teamId!;
+    const { eventTypes } = req.body;
+
+    if (eventTypes === undefined) {
+      res.status(400).json({ error: 'Missing required field: eventTypes' });
+      return;
+    }
+
+    const invalidTypes = findInvalidEventTypes(eventTypes);
+    if (invalidTypes) {
+      res.status(400).json({ error: `Invalid event types: ${invalidTypes.join(', ')}` });
+      return;
+    }
+
+    if (!WebhookService.getWebhookConfig(teamId)) {
+      res.status(404).json({ error: 'No webhook configured for team. Ask staff to set a webhook URL first.' });
+      return;
+    }
+
+    const webhook = WebhookService.setEventTypes(teamId, eventTypes);
+
+    res.json({ teamId, eventTypes: webhook.eventTypes });
+  } catch (error) {
+    console.error('Error setting webhook event types:', error);
+    res.status(500).json({ error: 'Failed to set webhook event types' });
+  }
+});
+
+/**
+ * GET /api/schemas
+ * Current payload schema (JSON Schema) of every event type
+ */
+router.get('/schemas', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const schemas = SchemaRegistry.getCurrentSchemas().map(entry => ({
+      type: entry.type,
+      version: entry.version,
+      schema: SchemaRegistry.toJsonSchema(entry),
+    }));
+
+    res.json({ schemas });
+  } catch (error) {
+    console.error('Error fetching schemas:', error);
+    res.status(500).json({ error: 'Failed to fetch schemas' });
+  }
+});
+
+/**
+ * GET /api/schemas/:type
+ * Payload schema of one event type (?version= for an older version)
+ */
+router.get('/schemas/:type', requireScope('read:events'), async (req: AuthRequest, res) => {
+  try {
+    const type = req.params.type as EventType;
+
+    if (!EVENT_TYPES.includes(type)) {
+      res.status(404).json({ error: `Unknown event type: ${type}` });
+      return;
+    }
+
+    const version = req.query.version !== undefined ? parseInt(req.query.version as string) : undefined;
+    if (version !== undefined && isNaN(version)) {
+      res.status(400).json({ error: 'version must be an integer' });
+      return;
+    }
+
+    const entry = SchemaRegistry.getSchema(type, version);
+    if (!entry) {
+      res.status(404).json({ error: `Schema version ${version} not found for ${type}` });
+      return;
+    }
+
+    res.json({
+      type,
+      version: entry.version,
+      currentVersion: SchemaRegistry.getCurrentVersion(type),
+      versions: SchemaRegistry.getVersions(type).map(v => ({ version: v.version, createdAt: v.createdAt })),
+      schema: SchemaRegistry.toJsonSchema(entry),
+    });
+  } catch (error) {
+    console.error('Error fetching schema:', error);
+    res.status(500).json({ error: 'Failed to fetch schema' });
+  }
+});
+
 /**
  * GET /api/teams/:id
  * Get team information
@@ -0,0 +1,234 @@
+import { Router, Request } from 'express';
+import { Server, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import AuthService, { TokenPayload } from '../services/AuthService';
+import EventService from '../services/EventService';
+import StreamService from '../services/StreamService';
+import { StreamMessage } from '../models/Stream';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const REPLAY_PAGE_SIZE = 500;
+
+export const WEBSOCKET_PATH = '/api/stream/ws';
+
+interface StreamSubscription {
+  teamId: string | null; // null = all teams (admin)
+  cursor?: number;
+}
+
+/**
+ * Resolve who is streaming and from where. EventSource cannot set headers,
+ * so the token may also be passed as ?token=
+ */
+function resolveSubscription(
+  authorization: string | undefined,
+  query: URLSearchParams,
+  lastEventId?: string
+): StreamSubscription | { status: number; error: string } {
+  const token = authorization?.startsWith('Bearer ')
+    ? authorization.substring(7)
+    : query.get('token');
+
+  if (!token) {
+    return { status: 401, error: 'Missing token' };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = AuthService.validateToken(token);
+  } catch {
+    return { status: 401, error: 'Invalid or expired token' };
+  }
+
+  if (!AuthService.hasScope(payload, 'read:events')) {
+    return { status: 403, error: 'Insufficient permissions. Required scope: read:events' };
+  }
+
+  // Admins stream every team unless they narrow it down
+  const teamId = payload.scopes.includes('admin:all') ? query.get('teamId') : payload.teamId;
+
+  const rawCursor = lastEventId || query.get('cursor');
+  if (!rawCursor) {
+    return { teamId };
+  }
+
+  const cursor = decodeCursor(rawCursor);
+  if (cursor === null) {
+    return { status: 400, error: 'Invalid cursor' };
+  }
+
+  if (teamId === null) {
+    return { status: 400, error: 'Resuming from a cursor requires a teamId' };
+  }
+
+  return { teamId, cursor };
+}
+
+/**
+ * Subscribe to live changes. With a cursor, the feed entries after it are sent
+ * first; live messages arriving meanwhile are held back and then sent without
+ * repeating anything already replayed.
+ */
+async function openStream(
+  subscription: StreamSubscription,
+  send: (message: StreamMessage) => void
+): Promise<() => void> {
+  const { teamId, cursor } = subscription;
+
+  if (teamId === null || cursor === undefined) {
+    return StreamService.subscribe(teamId, send);
+  }
+
+  const held: StreamMessage[] = [];
+  let replaying = true;
+  let lastSequence = cursor;
+
+  const unsubscribe = StreamService.subscribe(teamId, message => {
+    if (replaying) {
+      held.push(message);
+    } else {
+      send(message);
+    }
+  });
+
+  try {
+    let page;
+    do {
+      page = await EventService.getEventPage(teamId, {
+        cursor: lastSequence,
+        direction: 'asc',
+        limit: REPLAY_PAGE_SIZE,
+      });
+
+      for (const event of page.events) {
+        send({ kind: 'event', teamId, data: event });
+        lastSequence = event.sequence!;
+      }
+    } while (page.hasMore);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+
+  for (const message of held) {
+    if (message.kind === 'event' && message.data.sequence! <= lastSequence) continue;
+    send(message);
+  }
+  replaying = false;
+
+  return unsubscribe;
+}
+
+/**
+ * Cursor to resume after this message; only feed entries move the cursor
+ */
+function cursorFor(message: StreamMessage): string | undefined {
+  return message.kind === 'event' && message.data.sequence !== undefined
+    ? encodeCursor(message.data.sequence)
+    : undefined;
+}
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of events, chat messages and inventory changes
+ */
+router.get('/', async (req: Request, res) => {
+  const query = new URL(req.originalUrl, 'http://localhost').searchParams;
+  const subscription = resolveSubscription(
+    req.headers.authorization,
+    query,
+    req.get('last-event-id')
+  );
+
+  if ('error' in subscription) {
+    res.status(subscription.status).json({ error: subscription.error });
+    return;
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const send = (message: StreamMessage) => {
+    const cursor = cursorFor(message);
+    const id = cursor ? `id: ${cursor}\n` : '';
+
+    res.write(`event: ${message.kind}\n${id}data: ${JSON.stringify(message.data)}\n\n`);
+  };
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  let unsubscribe: (() => void) | undefined;
+  let closed = false;
+
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+
+  try {
+    unsubscribe = await openStream(subscription, send);
+    if (closed) unsubscribe();
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    clearInterval(heartbeat);
+    res.end();
+  }
+});
+
+/**
+ * Attach the WebSocket equivalent of GET /api/stream to the HTTP server.
+ * Each message is a JSON object: { kind, teamId, cursor?, data }
+ */
+export function attachStreamWebSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: WEBSOCKET_PATH });
+
+  wss.on('connection', async (socket: WebSocket, req: IncomingMessage) => {
+    const query = new URL(req.url || '', 'http://localhost').searchParams;
+    const subscription = resolveSubscription(req.headers.authorization, query);
+
+    if ('error' in subscription) {
+      socket.close(1008, subscription.error);
+      return;
+    }
+
+    const send = (message: StreamMessage) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      socket.send(JSON.stringify({
+        kind: message.kind,
+        teamId: message.teamId,
+        cursor: cursorFor(message),
+        data: message.data,
+      }));
+    };
+
+    let unsubscribe: (() => void) | undefined;
+    let closed = false;
+
+    socket.on('close', () => {
+      closed = true;
+      unsubscribe?.();
+    });
+
+    try {
+      unsubscribe = await openStream(subscription, send);
+      if (closed) unsubscribe();
+    } catch (error) {
+      logger.error('Failed to open WebSocket stream', error as Error);
+      socket.close(1011, 'Failed to open stream');
+    }
+  });
+
+  return wss;
+}
+
+export default router;
@@ -10,6 +10,7 @@ export type Scope =
   | 'write:chat'
   | 'write:events'
   | 'write:inventory'
+  | 'write:webhook'
   | 'admin:all';
 
 export interface TokenPayload {
@@ -21,16 +22,20 @@ export interface TokenPayload {
 
 export class AuthService {
   /**
-   * Generate JWT for a team
+   * Generate JWT for a team. write:inventory is only included for teams staff granted it to.
    */
-  generateTeamToken(teamId: string, mode: 'development' | 'judging'): string {
-    const scopes: Scope[] = ['read:inventory', 'read:events', 'write:chat'];
+  generateTeamToken(teamId: string, mode: 'development' | 'judging', inventoryWrite: boolean = false): string {
+    const scopes: Scope[] = ['read:inventory', 'read:events', 'write:chat', 'write:webhook'];
 
     // In development mode, teams can also send events
     if (mode === 'development') {
       scopes.push('write:events');
     }
 
+    if (inventoryWrite) {
+      scopes.push('write:inventory');
+    }
+
     const payload = {
       teamId,
       scopes,
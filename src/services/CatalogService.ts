@@ -0,0 +1,137 @@
+import { db } from '../database/connection';
+import { CreateSkuDTO, MAX_SKU_PRICE, Sku, SkuFilters, UpdateSkuDTO } from '../models/Sku';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import InventoryService from './InventoryService';
+import TeamService from './TeamService';
+
+const DEFAULT_CURRENCY = 'EUR';
+const DEFAULT_INITIAL_STOCK = 20;
+
+export class CatalogService {
+  /**
+   * The catalog, optionally narrowed to a status or category
+   */
+  async getSkus(filters: SkuFilters = {}): Promise<Sku[]> {
+    const stmt = db.prepare(`
+      SELECT * FROM skus
+      WHERE (? IS NULL OR status = ?) AND (? IS NULL OR category = ?)
+      ORDER BY sku
+    `);
+
+    const status = filters.status ?? null;
+    const category = filters.category ?? null;
+    const rows = stmt.all(status, status, category, category) as any[];
+    return rows.map(this.mapRowToSku);
+  }
+
+  async getSku(sku: string): Promise<Sku | null> {
+    const row = db.prepare('SELECT * FROM skus WHERE sku = ?').get(sku) as any;
+    return row ? this.mapRowToSku(row) : null;
+  }
+
+  /**
+   * Add a SKU and stock it in every team's inventory
+   */
+  async createSku(dto: CreateSkuDTO): Promise<Sku> {
+    if (await this.getSku(dto.sku)) {
+      throw new AppError(409, `SKU already exists: ${dto.sku}`);
+    }
+
+    db.prepare(`
+      INSERT INTO skus (sku, name, category, initial_stock, price_cents, currency, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      dto.sku,
+      dto.name,
+      dto.category,
+      dto.initialStock ?? DEFAULT_INITIAL_STOCK,
+      this.toCents(dto.price),
+      dto.currency ?? DEFAULT_CURRENCY,
+      dto.status ?? 'active'
+    );
+
+    // Only the new SKU is missing, so this adds exactly its rows
+    for (const team of await TeamService.getAllTeams()) {
+      await InventoryService.initializeTeamInventory(team.teamId);
+    }
+
+    logger.audit('SKU created', { sku: dto.sku, category: dto.category, price: dto.price });
+
+    return (await this.getSku(dto.sku))!;
+  }
+
+  /**
+   * Change a SKU's catalog fields. initialStock only applies to teams created afterwards.
+   */
+  async updateSku(sku: string, dto: UpdateSkuDTO): Promise<Sku> {
+    const current = await this.getSku(sku);
+    if (!current) {
+      throw new AppError(404, `Unknown SKU: ${sku}`);
+    }
+
+    const next = { ...current, ...dto };
+
+    db.prepare(`
+      UPDATE skus
+      SET name = ?, category = ?, initial_stock = ?, price_cents = ?, currency = ?, status = ?
+      WHERE sku = ?
+    `).run(next.name, next.category, next.initialStock, this.toCents(next.price), next.currency, next.status, sku);
+
+    logger.audit('SKU updated', { sku, changes: dto });
+
+    return (await this.getSku(sku))!;
+  }
+
+  /**
+   * Remove a SKU that no team has used yet. Once stock has moved, discontinue it instead
+   * so its inventory and history stay intact.
+   */
+  async deleteSku(sku: string): Promise<void> {
+    if (!(await this.getSku(sku))) {
+      throw new AppError(404, `Unknown SKU: ${sku}`);
+    }
+
+    const used = db.prepare(`
+      SELECT 1 FROM inventory_events WHERE sku = ? AND type != 'initialized'
+      UNION ALL
+      SELECT 1 FROM inventory_reservations WHERE sku = ?
+      LIMIT 1
+    `).get(sku, sku);
+
+    if (used) {
+      throw new AppError(409, `SKU ${sku} has inventory history; discontinue it instead`);
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM inventory_events WHERE sku = ?').run(sku);
+      db.prepare('DELETE FROM inventory WHERE sku = ?').run(sku);
+      db.prepare('DELETE FROM team_reorder_points WHERE sku = ?').run(sku);
+      db.prepare('DELETE FROM skus WHERE sku = ?').run(sku);
+    })();
+
+    logger.audit('SKU deleted', { sku });
+  }
+
+  private toCents(price: number): number {
+    if (!(price >= 0 && price <= MAX_SKU_PRICE)) {
+      throw new AppError(400, `price must be between 0 and ${MAX_SKU_PRICE}`);
+    }
+
+    return Math.round(price * 100);
+  }
+
+  private mapRowToSku(row: any): Sku {
+    return {
+      sku: row.sku,
+      name: row.name,
+      category: row.category,
+      price: row.price_cents / 100,
+      currency: row.currency,
+      status: row.status,
+      initialStock: row.initial_stock,
+    };
+  }
+}
+
+export default new CatalogService();
@@ -2,6 +2,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { db } from '../database/connection';
 import config from '../config';
 import logger from '../utils/logger';
+import WebhookService from './WebhookService';
+import StreamService from './StreamService';
 
 export interface Message {
   id: string;
@@ -43,9 +45,11 @@ export class ChatService {
       createdAt: now,
     };
 
+    StreamService.publish({ kind: 'chat', teamId: message.teamId, data: message });
+
     // Send webhook if enabled
     if (config.webhookEnabled) {
-      this.sendWebhook(dto.teamId, message).catch(err => {
+      WebhookService.sendMessage(message).catch(err => {
         logger.error('Failed to send webhook', err);
       });
     }
@@ -53,73 +57,6 @@ export class ChatService {
     return message;
   }
 
-  /**
-   * Get webhook URL for a team
-   */
-  private getWebhookUrl(teamId: string): string | null {
-    // Check team-specific webhook
-    const stmt = db.prepare('SELECT webhook_url FROM team_webhooks WHERE team_id = ?');
-    const row = stmt.get(teamId) as any;
-
-    if (row?.webhook_url) {
-      return row.webhook_url;
-    }
-
-    // Fall back to default webhook URL
-    if (config.defaultWebhookUrl) {
-      return config.defaultWebhookUrl;
-    }
-
-    return null;
-  }
-
-  /**
-   * Send webhook to n8n
-   */
-  private async sendWebhook(teamId: string, message: Message): Promise<void> {
-    const webhookUrl = this.getWebhookUrl(teamId);
-
-    if (!webhookUrl) {
-      logger.debug(`No webhook URL configured for team ${teamId}`);
-      return;
-    }
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), config.webhookTimeout);
-
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(message),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        logger.warn(`Webhook returned non-OK status: ${response.status}`, {
-          teamId,
-          messageId: message.id,
-        });
-      } else {
-        logger.debug('Webhook sent successfully', {
-          teamId,
-          messageId: message.id,
-          webhookUrl,
-        });
-      }
-    } catch (error) {
-      if ((error as Error).name === 'AbortError') {
-        logger.warn('Webhook request timed out', { teamId, messageId: message.id });
-      } else {
-        logger.error('Webhook request failed', error as Error, { teamId, messageId: message.id });
-      }
-    }
-  }
-
   /**
    * Get messages for a team
    */
@@ -204,66 +141,6 @@ export class ChatService {
       });
     }
   }
-
-  /**
-   * Set webhook URL for a team
-   */
-  setWebhookUrl(teamId: string, webhookUrl: string): void {
-    const now = new Date().toISOString();
-
-    const checkStmt = db.prepare('SELECT team_id FROM team_webhooks WHERE team_id = ?');
-    const existing = checkStmt.get(teamId) as any;
-
-    if (existing) {
-      // Update existing
-      const updateStmt = db.prepare(`
-        UPDATE team_webhooks
-        SET webhook_url = ?, updated_at = ?
-        WHERE team_id = ?
-      `);
-      updateStmt.run(webhookUrl, now, teamId);
-    } else {
-      // Insert new
-      const insertStmt = db.prepare(`
-        INSERT INTO team_webhooks (team_id, webhook_url, created_at, updated_at)
-        VALUES (?, ?, ?, ?)
-      `);
-      insertStmt.run(teamId, webhookUrl, now, now);
-    }
-
-    logger.info(`Webhook URL set for team ${teamId}`, { webhookUrl });
-  }
-
-  /**
-   * Get webhook URL for a team (public method)
-   */
-  getTeamWebhookUrl(teamId: string): string | null {
-    return this.getWebhookUrl(teamId);
-  }
-
-  /**
-   * Remove webhook URL for a team
-   */
-  removeWebhookUrl(teamId: string): void {
-    const stmt = db.prepare('DELETE FROM team_webhooks WHERE team_id = ?');
-    stmt.run(teamId);
-    logger.info(`Webhook URL removed for team ${teamId}`);
-  }
-
-  /**
-   * Get all webhook configurations (admin)
-   */
-  getAllWebhooks(): Array<{ teamId: string; webhookUrl: string; createdAt: string; updatedAt: string }> {
-    const stmt = db.prepare('SELECT * FROM team_webhooks');
-    const rows = stmt.all() as any[];
-
-    return rows.map((row: any) => ({
-      teamId: row.team_id,
-      webhookUrl: row.webhook_url,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
-  }
 }
 
 export default new ChatService();
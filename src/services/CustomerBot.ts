@@ -1,8 +1,8 @@
 import EventService from './EventService';
 import ChatService from './ChatService';
 import TeamService from './TeamService';
-
-const SKUS = ['IT-001', 'IT-002', 'IT-003', 'IT-004', 'IT-005', 'IT-006', 'IT-007', 'IT-008'];
+import CatalogService from './CatalogService';
+import { EventType } from '../models/Event';
 
 const CUSTOMER_MESSAGES = [
   "When will my order arrive?",
@@ -17,68 +17,61 @@ const CUSTOMER_MESSAGES = [
 
 export class CustomerBot {
   /**
-   * Generate a random order event for a team
+   * Generate a random order event for a team from the active catalog; returns the order ID
    */
-  async generateRandomOrder(teamId: string): Promise<void> {
+  async generateRandomOrder(teamId: string): Promise<string> {
+    const skus = (await CatalogService.getSkus({ status: 'active' })).map(s => s.sku);
+    if (skus.length === 0) {
+      throw new Error('No active SKUs in the catalog');
+    }
+
     const numItems = Math.floor(Math.random() * 3) + 1; // 1-3 items
     const items = [];
 
     for (let i = 0; i < numItems; i++) {
-      const sku = SKUS[Math.floor(Math.random() * SKUS.length)];
+      const sku = skus[Math.floor(Math.random() * skus.length)];
       const qty = Math.floor(Math.random() * 5) + 1; // 1-5 quantity
       items.push({ sku, qty });
     }
 
+    const orderId = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
     await EventService.createEvent({
       teamId,
       type: 'order.created',
       payload: {
-        orderId: `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        orderId,
         items,
         customerName: `Customer ${Math.floor(Math.random() * 10000)}`,
       },
     });
+
+    return orderId;
   }
 
   /**
    * Generate a random paid order event
    */
   async generateRandomPaidOrder(teamId: string): Promise<void> {
-    const orderId = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-
-    // First create order
-    await EventService.createEvent({
-      teamId,
-      type: 'order.created',
-      payload: {
-        orderId,
-        items: [{ sku: SKUS[Math.floor(Math.random() * SKUS.length)], qty: 1 }],
-      },
-    });
+    const orderId = await this.generateRandomOrder(teamId);
 
     // Then mark as paid (simulate delay)
     setTimeout(async () => {
-      await EventService.createEvent({
-        teamId,
-        type: 'order.paid',
-        payload: {
-          orderId,
-          paymentMethod: 'credit_card',
-          amount: Math.floor(Math.random() * 1000) + 100,
-        },
-      });
+      await this.payOrder(teamId, orderId);
     }, Math.random() * 5000); // 0-5 second delay
   }
 
   /**
-   * Generate a cancellation event
+   * Generate a cancellation of an order that has not been paid yet
    */
   async generateCancellation(teamId: string): Promise<void> {
+    const orderId = await this.pickOrder(teamId, ['order.created'], false);
+
     await EventService.createEvent({
       teamId,
       type: 'order.cancelled',
       payload: {
-        orderId: `ORD-${Math.floor(Math.random() * 100000)}`,
+        orderId,
         reason: ['customer_request', 'out_of_stock', 'payment_failed'][
           Math.floor(Math.random() * 3)
         ],
@@ -101,14 +94,16 @@ export class CustomerBot {
   }
 
   /**
-   * Generate a dispute event
+   * Generate a dispute on a paid order
    */
   async generateDispute(teamId: string): Promise<void> {
+    const orderId = await this.pickOrder(teamId, ['order.paid', 'order.refund_requested'], true);
+
     await EventService.createEvent({
       teamId,
       type: 'order.dispute_opened',
       payload: {
-        orderId: `ORD-${Math.floor(Math.random() * 100000)}`,
+        orderId,
         reason: ['item_not_received', 'damaged_item', 'wrong_item'][
           Math.floor(Math.random() * 3)
         ],
@@ -117,14 +112,16 @@ export class CustomerBot {
   }
 
   /**
-   * Generate a refund request event
+   * Generate a refund request for a paid order
    */
   async generateRefundRequest(teamId: string): Promise<void> {
+    const orderId = await this.pickOrder(teamId, ['order.paid'], true);
+
     await EventService.createEvent({
       teamId,
       type: 'order.refund_requested',
       payload: {
-        orderId: `ORD-${Math.floor(Math.random() * 100000)}`,
+        orderId,
         reason: ['no_longer_needed', 'product_defect', 'wrong_item'][
           Math.floor(Math.random() * 3)
         ],
@@ -132,6 +129,50 @@ export class CustomerBot {
     });
   }
 
+  /**
+   * Pay for an existing order (same items as when it was created, at catalog prices)
+   */
+  private async payOrder(teamId: string, orderId: string): Promise<void> {
+    const order = (await EventService.getOrderEvents(teamId, orderId)).find(e => e.type === 'order.created');
+    const items: { sku: string; qty: number }[] = (order?.payload as any)?.items ?? [];
+
+    let cents = 0;
+    for (const item of items) {
+      const sku = await CatalogService.getSku(item.sku);
+      cents += Math.round((sku?.price ?? 0) * 100) * item.qty;
+    }
+
+    await EventService.createEvent({
+      teamId,
+      type: 'order.paid',
+      payload: {
+        orderId,
+        items,
+        paymentMethod: 'credit_card',
+        amount: cents / 100,
+      },
+    });
+  }
+
+  /**
+   * Pick a recent order whose latest event is one of the given types. If the
+   * team has none, place a new order (and pay for it when requested) first.
+   */
+  private async pickOrder(teamId: string, latestTypes: EventType[], paid: boolean): Promise<string> {
+    const candidates = await EventService.findOrdersByLatestType(teamId, latestTypes);
+
+    if (candidates.length > 0) {
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+
+    const orderId = await this.generateRandomOrder(teamId);
+    if (paid) {
+      await this.payOrder(teamId, orderId);
+    }
+
+    return orderId;
+  }
+
   /**
    * Generate a random mix of events for a team
    */
@@ -0,0 +1,50 @@
+import EventService from './EventService';
+import config from '../config';
+import logger from '../utils/logger';
+
+export class EventScheduler {
+  /**
+   * Release every delayed event and duplicate redelivery whose due time has passed
+   */
+  async releaseDueEvents(): Promise<number> {
+    const dueEvents = await EventService.getDueEvents();
+    let released = 0;
+
+    for (const event of dueEvents) {
+      if (await EventService.releaseEvent(event.id)) {
+        released++;
+      }
+    }
+
+    for (const redelivery of await EventService.getDueRedeliveries()) {
+      if (await EventService.releaseRedelivery(redelivery.id)) {
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Start the scheduler loop. Due times are persisted on the events themselves,
+   * so anything that came due while the server was down is released on the first tick.
+   */
+  start(intervalMs: number = config.eventSchedulerIntervalMs): NodeJS.Timeout {
+    let running = false;
+
+    return setInterval(async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        await this.releaseDueEvents();
+      } catch (error) {
+        logger.error('Event scheduler failed', error as Error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+  }
+}
+
+export default new EventScheduler();
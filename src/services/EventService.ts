@@ -1,38 +1,121 @@
+import { isDeepStrictEqual } from 'util';
 import { v4 as uuidv4 } from 'uuid';
-import { Event, CreateEventDTO, EventFilters, EventType } from '../models/Event';
+import {
+  Event,
+  CreateEventDTO,
+  EventFilters,
+  EventType,
+  EventMetadata,
+  EVENT_TYPES,
+  MALFORMED_KINDS,
+  MalformedKind,
+  MalformedEventReport,
+  EventRedelivery,
+  EventAck,
+  EventAckDTO,
+  EventAckStats,
+  EventPage,
+  EventPageOptions,
+  BatchReplayOptions,
+  BatchReplayResult,
+  EventChain,
+  EventChainNode,
+  ScheduledEventDTO,
+  DelayScheduleOptions,
+} from '../models/Event';
 import { db } from '../database/connection';
+import config from '../config';
 import logger from '../utils/logger';
+import WebhookService from './WebhookService';
+import StreamService from './StreamService';
+import SchemaRegistry from './SchemaRegistry';
+import { AppError } from '../middleware/errorHandler';
+import { encodeCursor } from '../utils/cursor';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Most events a single batch replay may create
+const MAX_REPLAY_BATCH = 1000;
+
+// Size of the padding in oversized_payload chaos events
+const OVERSIZED_PAYLOAD_BYTES = 256 * 1024;
+
+// Feed entries get a sequence once they reach the team; delayed events and
+// scheduled redeliveries stay hidden until the scheduler releases them
+const VISIBLE_CONDITION = 'sequence IS NOT NULL';
 
 export class EventService {
   /**
-   * Create a new event (with idempotency check)
+   * Create a new event. With an idempotency key, a repeated request returns
+   * the originally created event flagged as replayed.
    */
-  async createEvent(dto: CreateEventDTO): Promise<Event> {
-    const eventId = uuidv4();
+  async createEvent(dto: CreateEventDTO, eventId: string = uuidv4()): Promise<Event> {
+    if (dto.idempotencyKey) {
+      const existing = this.findByIdempotencyKey(dto.teamId, dto.idempotencyKey);
+
+      if (existing) {
+        return this.replayExisting(dto, existing);
+      }
+    }
+
     const now = new Date().toISOString();
+    const metadata = await this.buildMetadata(eventId, dto);
+
+    const created = db.transaction(() => {
+      // A concurrent retry with the same key may have been stored while links were resolved
+      if (dto.idempotencyKey) {
+        const existing = this.findByIdempotencyKey(dto.teamId, dto.idempotencyKey);
+        if (existing) return { existing };
+      }
 
-    logger.audit('Event created', { teamId: dto.teamId, type: dto.type, eventId });
+      return { event: this.insertEvent(dto, eventId, metadata, now) };
+    })();
 
-    // Check for duplicate (idempotency)
-    const existing = await this.getEventById(eventId);
-    if (existing) {
-      logger.info('Duplicate event detected (idempotent)', { eventId });
-      return existing; // Return existing event (idempotent)
+    if (created.existing) {
+      return this.replayExisting(dto, created.existing);
     }
 
-    // Insert new event
-    const stmt = db.prepare(`
-      INSERT INTO events (id, team_id, type, payload, created_at, metadata)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
+    return this.announceCreated(created.event!);
+  }
+
+  /**
+   * Link the event into its order's chain and tag it with the payload schema
+   * version it was created under
+   */
+  private async buildMetadata(eventId: string, dto: CreateEventDTO): Promise<EventMetadata | undefined> {
+    const links = await this.resolveLinks(eventId, dto);
+    const metadata: EventMetadata | undefined = Object.keys(links).length > 0 ? { ...dto.metadata, ...links } : dto.metadata;
+
+    return this.withSchemaVersion(dto.type, metadata);
+  }
+
+  private withSchemaVersion(type: EventType, metadata: EventMetadata | undefined): EventMetadata | undefined {
+    if (!EVENT_TYPES.includes(type)) {
+      return metadata;
+    }
+
+    return { ...metadata, schemaVersion: metadata?.schemaVersion ?? SchemaRegistry.getCurrentVersion(type) };
+  }
 
-    stmt.run(
+  /**
+   * Store a new event (call inside a transaction). Delayed events get their
+   * sequence when the scheduler releases them.
+   */
+  private insertEvent(dto: CreateEventDTO, eventId: string, metadata: EventMetadata | undefined, now: string): Event {
+    const sequence = metadata?.delayedUntil ? null : this.nextSequence(dto.teamId);
+
+    db.prepare(`
+      INSERT INTO events (id, team_id, type, payload, created_at, metadata, idempotency_key, sequence)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
       eventId,
       dto.teamId,
       dto.type,
       JSON.stringify(dto.payload),
       now,
-      dto.metadata ? JSON.stringify(dto.metadata) : null
+      metadata ? JSON.stringify(metadata) : null,
+      dto.idempotencyKey || null,
+      sequence
     );
 
     return {
@@ -41,16 +124,48 @@ export class EventService {
       type: dto.type,
       payload: dto.payload,
       createdAt: now,
-      metadata: dto.metadata,
+      sequence: sequence ?? undefined,
+      metadata,
+      ...(dto.idempotencyKey && { idempotencyKey: dto.idempotencyKey }),
     };
   }
 
   /**
-   * Get events for a team with optional filters
+   * Log a stored event and deliver it, unless it is delayed
+   */
+  private announceCreated(event: Event): Event {
+    logger.audit('Event created', { teamId: event.teamId, type: event.type, eventId: event.id });
+
+    if (!event.metadata?.delayedUntil) {
+      this.publish(event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Get the team's event feed with optional filters. The feed is ordered by
+   * sequence (delivery order) and includes duplicate redeliveries of the same event.
    */
   async getEvents(teamId: string, filters?: EventFilters): Promise<Event[]> {
-    let query = 'SELECT * FROM events WHERE team_id = ?';
-    const params: any[] = [teamId];
+    let query = `
+      SELECT feed.*, a.outcome AS ack_outcome, a.note AS ack_note, a.acked_at
+      FROM (
+        SELECT id, team_id, type, payload, created_at, processed_at, metadata, idempotency_key,
+          sequence, COALESCE(processed_at, created_at) AS delivered_at
+        FROM events
+        WHERE team_id = ? ${filters?.includeScheduled ? '' : `AND ${VISIBLE_CONDITION}`}
+        UNION ALL
+        SELECT e.id, e.team_id, e.type, e.payload, e.created_at, e.processed_at, e.metadata, e.idempotency_key,
+          r.sequence, r.delivered_at
+        FROM event_redeliveries r
+        JOIN events e ON e.id = r.event_id
+        WHERE r.team_id = ? AND r.sequence IS NOT NULL
+      ) feed
+      LEFT JOIN event_acks a ON a.team_id = feed.team_id AND a.event_id = feed.id
+      WHERE 1 = 1
+    `;
+    const params: any[] = [teamId, teamId];
 
     if (filters?.type) {
       query += ' AND type = ?';
@@ -58,11 +173,25 @@ export class EventService {
     }
 
     if (filters?.since) {
-      query += ' AND created_at > ?';
+      query += ' AND delivered_at > ?';
       params.push(filters.since);
     }
 
-    query += ' ORDER BY created_at DESC';
+    if (filters?.afterSequence !== undefined) {
+      query += ' AND sequence > ?';
+      params.push(filters.afterSequence);
+    }
+
+    if (filters?.beforeSequence !== undefined) {
+      query += ' AND sequence < ?';
+      params.push(filters.beforeSequence);
+    }
+
+    if (filters?.unacked) {
+      query += ' AND a.event_id IS NULL';
+    }
+
+    query += filters?.order === 'asc' ? ' ORDER BY sequence ASC' : ' ORDER BY sequence DESC';
 
     if (filters?.limit) {
       query += ' LIMIT ?';
@@ -75,6 +204,140 @@ export class EventService {
     return rows.map(this.mapRowToEvent);
   }
 
+  /**
+   * Get one page of the team's feed. Ascending pages return entries after the
+   * cursor (oldest first), descending pages entries before it (newest first).
+   */
+  async getEventPage(teamId: string, options: EventPageOptions = {}): Promise<EventPage> {
+    const direction = options.direction || 'desc';
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+
+    // Fetch one extra entry to know whether another page exists
+    const rows = await this.getEvents(teamId, {
+      type: options.type,
+      since: options.since,
+      unacked: options.unacked,
+      order: direction,
+      limit: limit + 1,
+      ...(options.cursor !== undefined &&
+        (direction === 'asc' ? { afterSequence: options.cursor } : { beforeSequence: options.cursor })),
+    });
+
+    const events = rows.slice(0, limit);
+    const last = events[events.length - 1];
+
+    // An empty ascending page keeps the cursor so pollers resume from the same place
+    let nextCursor: string | null = null;
+    if (last) {
+      nextCursor = encodeCursor(last.sequence!);
+    } else if (direction === 'asc' && options.cursor !== undefined) {
+      nextCursor = encodeCursor(options.cursor);
+    }
+
+    return {
+      events,
+      hasMore: rows.length > limit,
+      nextCursor,
+    };
+  }
+
+  /**
+   * Record the team's acknowledgement of an event in its feed. Acking again
+   * replaces the earlier outcome. Returns null if the event is not in the feed.
+   */
+  async acknowledgeEvent(teamId: string, ack: EventAckDTO): Promise<EventAck | null> {
+    const { acknowledged } = await this.acknowledgeEvents(teamId, [ack]);
+    return acknowledged[0] || null;
+  }
+
+  /**
+   * Acknowledge several events at once; events not in the team's feed are
+   * reported back instead of failing the batch
+   */
+  async acknowledgeEvents(
+    teamId: string,
+    acks: EventAckDTO[]
+  ): Promise<{ acknowledged: EventAck[]; notFound: string[] }> {
+    const visibleStmt = db.prepare(`SELECT 1 FROM events WHERE id = ? AND team_id = ? AND ${VISIBLE_CONDITION}`);
+    const upsertStmt = db.prepare(`
+      INSERT INTO event_acks (team_id, event_id, outcome, note, acked_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (team_id, event_id) DO UPDATE SET
+        outcome = excluded.outcome,
+        note = excluded.note,
+        acked_at = excluded.acked_at
+    `);
+
+    const acknowledged: EventAck[] = [];
+    const notFound: string[] = [];
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      for (const ack of acks) {
+        if (!visibleStmt.get(ack.eventId, teamId)) {
+          notFound.push(ack.eventId);
+          continue;
+        }
+
+        const outcome = ack.outcome || 'handled';
+        upsertStmt.run(teamId, ack.eventId, outcome, ack.note || null, now);
+        acknowledged.push({
+          eventId: ack.eventId,
+          teamId,
+          outcome,
+          ...(ack.note && { note: ack.note }),
+          ackedAt: now,
+        });
+      }
+    })();
+
+    if (acknowledged.length > 0) {
+      logger.info('Events acknowledged', { teamId, count: acknowledged.length });
+    }
+
+    return { acknowledged, notFound };
+  }
+
+  /**
+   * How many delivered events each team has acknowledged, by outcome
+   */
+  async getAckStats(teamId?: string): Promise<EventAckStats[]> {
+    let query = `
+      SELECT
+        e.team_id,
+        COUNT(*) AS delivered,
+        COUNT(a.event_id) AS acked,
+        SUM(CASE WHEN a.outcome = 'handled' THEN 1 ELSE 0 END) AS handled,
+        SUM(CASE WHEN a.outcome = 'rejected' THEN 1 ELSE 0 END) AS rejected,
+        SUM(CASE WHEN a.outcome = 'deferred' THEN 1 ELSE 0 END) AS deferred
+      FROM events e
+      LEFT JOIN event_acks a ON a.team_id = e.team_id AND a.event_id = e.id
+      WHERE e.${VISIBLE_CONDITION}
+    `;
+    const params: any[] = [];
+
+    if (teamId) {
+      query += ' AND e.team_id = ?';
+      params.push(teamId);
+    }
+
+    query += ' GROUP BY e.team_id ORDER BY e.team_id';
+
+    const rows = db.prepare(query).all(...params) as any[];
+
+    return rows.map(row => ({
+      teamId: row.team_id,
+      delivered: row.delivered,
+      acked: row.acked,
+      unacked: row.delivered - row.acked,
+      byOutcome: {
+        handled: row.handled,
+        rejected: row.rejected,
+        deferred: row.deferred,
+      },
+    }));
+  }
+
   /**
    * Get a single event by ID
    */
@@ -85,6 +348,188 @@ export class EventService {
     return row ? this.mapRowToEvent(row) : null;
   }
 
+  /**
+   * The stored event for a reused idempotency key, flagged as replayed.
+   * The key must have been used for the same request.
+   */
+  private replayExisting(dto: CreateEventDTO, existing: Event): Event {
+    // Compared as stored (JSON round trip), ignoring key order
+    const payload = JSON.parse(JSON.stringify(dto.payload));
+    if (existing.type !== dto.type || !isDeepStrictEqual(existing.payload, payload)) {
+      throw new AppError(422, `Idempotency key ${dto.idempotencyKey} was already used with a different request`);
+    }
+
+    logger.info('Idempotent replay of event', { teamId: dto.teamId, eventId: existing.id });
+    return { ...existing, replayed: true };
+  }
+
+  private findByIdempotencyKey(teamId: string, idempotencyKey: string): Event | null {
+    const stmt = db.prepare('SELECT * FROM events WHERE team_id = ? AND idempotency_key = ?');
+    const row = stmt.get(teamId, idempotencyKey) as any;
+
+    return row ? this.mapRowToEvent(row) : null;
+  }
+
+  /**
+   * Correlation and causation for a new event. An explicit correlationId (or a
+   * replay) is kept as is; an explicit causationId inherits its cause's
+   * correlation; otherwise an order event is caused by the order's latest
+   * event, and an order's first event starts a chain correlated by its own ID.
+   */
+  private async resolveLinks(
+    eventId: string,
+    dto: CreateEventDTO
+  ): Promise<Pick<EventMetadata, 'correlationId' | 'causationId'>> {
+    const { correlationId, causationId, replayOf } = dto.metadata || {};
+
+    if (correlationId || replayOf) {
+      return {};
+    }
+
+    if (causationId) {
+      const cause = await this.getEventById(causationId);
+      return { correlationId: cause?.metadata?.correlationId || causationId };
+    }
+
+    const orderId = (dto.payload as any)?.orderId;
+    if (!dto.type.startsWith('order.') || typeof orderId !== 'string') {
+      return {};
+    }
+
+    const previous = this.findLatestOrderEvent(dto.teamId, orderId);
+    if (!previous) {
+      return { correlationId: eventId };
+    }
+
+    return {
+      correlationId: previous.metadata?.correlationId || previous.id,
+      causationId: previous.id,
+    };
+  }
+
+  /**
+   * Most recent event about an order (ignoring replays and malformed chaos events)
+   */
+  private findLatestOrderEvent(teamId: string, orderId: string): Event | null {
+    const row = db.prepare(`
+      SELECT * FROM events
+      WHERE team_id = ? AND json_extract(payload, '$.orderId') = ?
+      AND json_extract(metadata, '$.replayOf') IS NULL
+      AND json_extract(metadata, '$.malformed') IS NULL
+      ORDER BY rowid DESC
+      LIMIT 1
+    `).get(teamId, orderId) as any;
+
+    return row ? this.mapRowToEvent(row) : null;
+  }
+
+  /**
+   * Every event about an order, oldest first (ignoring replays and malformed chaos events)
+   */
+  async getOrderEvents(teamId: string, orderId: string): Promise<Event[]> {
+    const rows = db.prepare(`
+      SELECT * FROM events
+      WHERE team_id = ? AND json_extract(payload, '$.orderId') = ?
+      AND json_extract(metadata, '$.replayOf') IS NULL
+      AND json_extract(metadata, '$.malformed') IS NULL
+      ORDER BY rowid ASC
+    `).all(teamId, orderId) as any[];
+
+    return rows.map(this.mapRowToEvent);
+  }
+
+  /**
+   * Order events the team has received (each once, duplicates aside), in their
+   * intended order: out-of-order batches are put back by logicalSequence.
+   * Malformed chaos events and replays are left out.
+   */
+  async getDeliveredOrderEvents(teamId: string, orderId?: string): Promise<Event[]> {
+    let query = `
+      SELECT * FROM events
+      WHERE team_id = ? AND ${VISIBLE_CONDITION}
+      AND type LIKE 'order.%'
+      AND json_extract(payload, '$.orderId') IS NOT NULL
+      AND json_extract(metadata, '$.malformed') IS NULL
+      AND json_extract(metadata, '$.replayOf') IS NULL
+    `;
+    const params: any[] = [teamId];
+
+    if (orderId) {
+      query += " AND json_extract(payload, '$.orderId') = ?";
+      params.push(orderId);
+    }
+
+    query += " ORDER BY COALESCE(json_extract(metadata, '$.logicalSequence'), sequence) ASC, sequence ASC";
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map(this.mapRowToEvent);
+  }
+
+  /**
+   * Order IDs whose most recent event is one of the given types, newest first
+   */
+  async findOrdersByLatestType(teamId: string, types: EventType[], limit: number = 20): Promise<string[]> {
+    const rows = db.prepare(`
+      SELECT order_id FROM (
+        SELECT
+          json_extract(payload, '$.orderId') AS order_id,
+          type,
+          rowid AS position,
+          ROW_NUMBER() OVER (PARTITION BY json_extract(payload, '$.orderId') ORDER BY rowid DESC) AS recency
+        FROM events
+        WHERE team_id = ? AND json_extract(payload, '$.orderId') IS NOT NULL
+        AND json_extract(metadata, '$.replayOf') IS NULL
+        AND json_extract(metadata, '$.malformed') IS NULL
+      )
+      WHERE recency = 1 AND type IN (${types.map(() => '?').join(', ')})
+      ORDER BY position DESC
+      LIMIT ?
+    `).all(teamId, ...types, limit) as any[];
+
+    return rows.map(row => row.order_id);
+  }
+
+  /**
+   * The causal tree an event belongs to: every event sharing its correlationId,
+   * nested under the event that caused it. Scoped to the team's visible feed
+   * unless teamId is null (admin).
+   */
+  async getEventChain(eventId: string, teamId: string | null): Promise<EventChain | null> {
+    const event = await this.getEventById(eventId);
+    if (!event || (teamId !== null && (event.teamId !== teamId || event.sequence === undefined))) {
+      return null;
+    }
+
+    const correlationId = event.metadata?.correlationId || event.id;
+
+    let query = `
+      SELECT * FROM events
+      WHERE (id = ? OR json_extract(metadata, '$.correlationId') = ?)
+    `;
+    if (teamId !== null) {
+      query += ` AND team_id = ? AND ${VISIBLE_CONDITION}`;
+    }
+    query += ' ORDER BY rowid ASC';
+
+    const params = teamId !== null ? [correlationId, correlationId, teamId] : [correlationId, correlationId];
+    const events = (db.prepare(query).all(...params) as any[]).map(this.mapRowToEvent);
+
+    // Nest each event under its cause; events whose cause is outside the chain are roots
+    const nodes = new Map(events.map(e => [e.id, { event: e, children: [] as EventChainNode[] }]));
+    const roots: EventChainNode[] = [];
+
+    for (const node of nodes.values()) {
+      const parent = node.event.metadata?.causationId ? nodes.get(node.event.metadata.causationId) : undefined;
+      if (parent && parent !== node) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return { correlationId, count: events.length, roots };
+  }
+
   /**
    * Replay an existing event (creates new event with replayOf metadata)
    */
@@ -101,11 +546,125 @@ export class EventService {
       payload: original.payload,
       metadata: {
         replayOf: eventId,
-        delayedUntil: delayUntil,
+        delayedUntil: delayUntil && new Date(delayUntil).toISOString(),
+        schemaVersion: original.metadata?.schemaVersion,
       },
     });
   }
 
+  /**
+   * Replay a range of a team's feed as new events, in the original order.
+   * With preserveSpacing the original gaps (divided by compressionFactor) are
+   * kept through delayed delivery; otherwise everything is sent at once.
+   */
+  async replayBatch(options: BatchReplayOptions): Promise<BatchReplayResult> {
+    const originals = this.findReplayRange(options);
+    const batchId = uuidv4();
+    const targetTeamId = options.targetTeamId || options.teamId;
+    const compressionFactor = options.compressionFactor || 1;
+
+    const start = Date.now();
+    const firstDeliveredAt = originals.length > 0 ? Date.parse(originals[0].deliveredAt!) : 0;
+
+    // Links between replayed events point at their replayed counterparts
+    const replayedIds = new Map<string, string>();
+    const events: Event[] = [];
+
+    for (const original of originals) {
+      const offsetMs = options.preserveSpacing
+        ? (Date.parse(original.deliveredAt!) - firstDeliveredAt) / compressionFactor
+        : 0;
+      const { correlationId, causationId, malformed, schemaVersion } = original.metadata || {};
+
+      const created = await this.createEvent({
+        teamId: targetTeamId,
+        type: original.type,
+        payload: original.payload,
+        metadata: {
+          ...(correlationId && { correlationId: replayedIds.get(correlationId) || correlationId }),
+          ...(causationId && { causationId: replayedIds.get(causationId) || causationId }),
+          ...(malformed && { malformed }),
+          schemaVersion,
+          replayOf: original.id,
+          replayBatchId: batchId,
+          ...(offsetMs > 0 && { delayedUntil: new Date(start + offsetMs).toISOString() }),
+        },
+      });
+
+      replayedIds.set(original.id, created.id);
+      events.push(created);
+    }
+
+    logger.audit('Event batch replayed', {
+      batchId,
+      sourceTeamId: options.teamId,
+      targetTeamId,
+      count: events.length,
+    });
+
+    return {
+      batchId,
+      sourceTeamId: options.teamId,
+      targetTeamId,
+      events,
+      schedule: events.map(event => ({
+        eventId: event.id,
+        replayOf: event.metadata!.replayOf!,
+        type: event.type,
+        deliverAt: event.metadata?.delayedUntil || event.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Events of a batch replay range in feed order (original events, not
+   * duplicate redeliveries)
+   */
+  private findReplayRange(options: BatchReplayOptions): Event[] {
+    let query = `
+      SELECT *, COALESCE(processed_at, created_at) AS delivered_at
+      FROM events
+      WHERE team_id = ? AND ${VISIBLE_CONDITION}
+    `;
+    const params: any[] = [options.teamId];
+
+    if (options.from) {
+      query += ' AND COALESCE(processed_at, created_at) >= ?';
+      params.push(options.from);
+    }
+
+    if (options.to) {
+      query += ' AND COALESCE(processed_at, created_at) <= ?';
+      params.push(options.to);
+    }
+
+    if (options.fromSequence !== undefined) {
+      query += ' AND sequence >= ?';
+      params.push(options.fromSequence);
+    }
+
+    if (options.toSequence !== undefined) {
+      query += ' AND sequence <= ?';
+      params.push(options.toSequence);
+    }
+
+    if (options.types && options.types.length > 0) {
+      query += ` AND type IN (${options.types.map(() => '?').join(', ')})`;
+      params.push(...options.types);
+    }
+
+    query += ' ORDER BY sequence ASC LIMIT ?';
+    params.push(MAX_REPLAY_BATCH + 1);
+
+    const rows = db.prepare(query).all(...params) as any[];
+
+    if (rows.length > MAX_REPLAY_BATCH) {
+      throw new AppError(400, `Replay range matches more than ${MAX_REPLAY_BATCH} events; narrow it down`);
+    }
+
+    return rows.map(this.mapRowToEvent);
+  }
+
   /**
    * Get events that are due to be processed (for delayed events)
    */
@@ -116,7 +675,7 @@ export class EventService {
       WHERE json_extract(metadata, '$.delayedUntil') IS NOT NULL
       AND json_extract(metadata, '$.delayedUntil') <= ?
       AND processed_at IS NULL
-      ORDER BY created_at ASC
+      ORDER BY json_extract(metadata, '$.delayedUntil') ASC, rowid ASC
     `);
 
     const rows = stmt.all(now) as any[];
@@ -137,68 +696,375 @@ export class EventService {
   }
 
   /**
-   * Send a duplicate event (for testing idempotency)
+   * Release a delayed event to the team (no-op if it was already released)
+   */
+  async releaseEvent(eventId: string): Promise<Event | null> {
+    const claimStmt = db.prepare(`
+      UPDATE events
+      SET processed_at = ?
+      WHERE id = ? AND processed_at IS NULL
+      RETURNING team_id
+    `);
+
+    const released = db.transaction(() => {
+      const row = claimStmt.get(new Date().toISOString(), eventId) as any;
+      if (!row) return false;
+
+      db.prepare('UPDATE events SET sequence = ? WHERE id = ?').run(this.nextSequence(row.team_id), eventId);
+      return true;
+    })();
+
+    if (!released) {
+      return null;
+    }
+
+    const event = (await this.getEventById(eventId))!;
+
+    logger.info('Delayed event released', {
+      teamId: event.teamId,
+      eventId,
+      delayedUntil: event.metadata?.delayedUntil,
+    });
+
+    this.publish(event);
+
+    return event;
+  }
+
+  /**
+   * Redeliver an existing event (same event ID) to its team, through the
+   * events feed and webhooks - for testing that workflows deduplicate
    */
-  async sendDuplicateEvent(eventId: string): Promise<Event> {
+  async sendDuplicateEvent(eventId: string, count: number = 1, intervalMs: number = 0): Promise<EventRedelivery[]> {
     const original = await this.getEventById(eventId);
     if (!original) {
       throw new Error(`Event ${eventId} not found`);
     }
 
-    // Return the same event (idempotent)
-    return original;
+    // A delayed event the scheduler has not released yet must not reach the team early
+    if (original.sequence == null) {
+      throw new AppError(409, `Event ${eventId} has not been released yet`);
+    }
+
+    const stmt = db.prepare(`
+      INSERT INTO event_redeliveries (id, event_id, team_id, deliver_at, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const now = Date.now();
+    const ids: string[] = [];
+
+    // All or none, so a failure part-way does not leave orphaned duplicates scheduled
+    db.transaction(() => {
+      for (let i = 0; i < count; i++) {
+        const id = uuidv4();
+        stmt.run(id, eventId, original.teamId, new Date(now + i * intervalMs).toISOString(), new Date(now).toISOString());
+        ids.push(id);
+      }
+    })();
+
+    logger.audit('Duplicate event scheduled', { teamId: original.teamId, eventId, count, intervalMs });
+
+    // Deliver the ones that are already due; the scheduler releases the rest
+    for (const id of ids) {
+      await this.releaseRedelivery(id);
+    }
+
+    return Promise.all(ids.map(async id => (await this.getRedelivery(id))!));
+  }
+
+  /**
+   * Get duplicate redeliveries that are due to be delivered
+   */
+  async getDueRedeliveries(): Promise<EventRedelivery[]> {
+    const stmt = db.prepare(`
+      SELECT * FROM event_redeliveries
+      WHERE delivered_at IS NULL AND deliver_at <= ?
+      ORDER BY deliver_at ASC
+    `);
+
+    const rows = stmt.all(new Date().toISOString()) as any[];
+    return rows.map(this.mapRowToRedelivery);
+  }
+
+  /**
+   * Deliver a due redelivery (no-op if it is not due or was already delivered)
+   */
+  async releaseRedelivery(redeliveryId: string): Promise<EventRedelivery | null> {
+    const now = new Date().toISOString();
+    const claimStmt = db.prepare(`
+      UPDATE event_redeliveries
+      SET delivered_at = ?
+      WHERE id = ? AND delivered_at IS NULL AND deliver_at <= ?
+      RETURNING team_id
+    `);
+
+    const released = db.transaction(() => {
+      const row = claimStmt.get(now, redeliveryId, now) as any;
+      if (!row) return false;
+
+      db.prepare('UPDATE event_redeliveries SET sequence = ? WHERE id = ?')
+        .run(this.nextSequence(row.team_id), redeliveryId);
+      return true;
+    })();
+
+    if (!released) {
+      return null;
+    }
+
+    const redelivery = (await this.getRedelivery(redeliveryId))!;
+    const event = (await this.getEventById(redelivery.eventId))!;
+
+    logger.info('Duplicate event delivered', { teamId: event.teamId, eventId: event.id, redeliveryId });
+
+    // Publish the feed entry: the original event at the redelivery's position
+    this.publish({ ...event, sequence: redelivery.sequence!, deliveredAt: redelivery.deliveredAt! });
+
+    return redelivery;
+  }
+
+  private async getRedelivery(redeliveryId: string): Promise<EventRedelivery | null> {
+    const stmt = db.prepare('SELECT * FROM event_redeliveries WHERE id = ?');
+    const row = stmt.get(redeliveryId) as any;
+
+    return row ? this.mapRowToRedelivery(row) : null;
   }
 
   /**
-   * Send events out of order
+   * Send events out of order. The batch takes a contiguous block of sequence
+   * numbers; metadata.logicalSequence is the position each event should have had,
+   * so sequence !== logicalSequence marks a reordered event. Events that get no
+   * new sequence (idempotent replays, delayed events) have no logicalSequence.
    */
   async sendOutOfOrderEvents(teamId: string, events: CreateEventDTO[]): Promise<Event[]> {
+    // Causation follows the logical order, not the shuffled delivery order
+    const ids = events.map(() => uuidv4());
+    const links: Array<Pick<EventMetadata, 'correlationId' | 'causationId'>> = [];
+    const latestByOrder = new Map<string, number>();
+
+    for (let i = 0; i < events.length; i++) {
+      const orderId = (events[i].payload as any)?.orderId;
+      const previous = typeof orderId === 'string' ? latestByOrder.get(orderId) : undefined;
+
+      if (previous !== undefined && !events[i].metadata?.correlationId) {
+        links.push({
+          correlationId: events[previous].metadata?.correlationId || links[previous].correlationId || ids[previous],
+          causationId: ids[previous],
+        });
+      } else {
+        links.push(await this.resolveLinks(ids[i], { ...events[i], teamId }));
+      }
+
+      if (typeof orderId === 'string') {
+        latestByOrder.set(orderId, i);
+      }
+    }
+
     // Shuffle events to send them out of order
-    const shuffled = [...events].sort(() => Math.random() - 0.5);
+    const shuffled = events
+      .map((event, index) => ({ event: { ...event, teamId }, index }))
+      .sort(() => Math.random() - 0.5);
 
-    const createdEvents: Event[] = [];
-    for (const event of shuffled) {
-      const created = await this.createEvent({
-        ...event,
-        teamId,
-        metadata: {
-          ...event.metadata,
-          outOfOrder: 'true',
-        },
+    // Store the whole batch at once, so no other event of the team can take a
+    // sequence between its first and last
+    const now = new Date().toISOString();
+    const stored = db.transaction(() => {
+      const results = shuffled.map(({ event, index }) => {
+        if (event.idempotencyKey) {
+          const existing = this.findByIdempotencyKey(teamId, event.idempotencyKey);
+          if (existing) return { existing, event, index };
+        }
+
+        const metadata = this.withSchemaVersion(event.type, { ...event.metadata, ...links[index], outOfOrder: 'true' });
+
+        return { created: this.insertEvent(event, ids[index], metadata, now), event, index };
       });
-      createdEvents.push(created);
+
+      // Hand the sequences the batch actually received out in logical order;
+      // replayed and delayed events got none and have no logical position
+      const numbered = results.filter(result => result.created?.sequence != null);
+      const sequences = numbered.map(result => result.created!.sequence!).sort((a, b) => a - b);
+      const updateStmt = db.prepare('UPDATE events SET metadata = ? WHERE id = ?');
+
+      [...numbered].sort((a, b) => a.index - b.index).forEach((result, i) => {
+        const created = result.created!;
+        created.metadata = { ...created.metadata, logicalSequence: sequences[i] };
+        updateStmt.run(JSON.stringify(created.metadata), created.id);
+      });
+
+      return results;
+    })();
+
+    return stored.map(({ existing, created, event }) =>
+      existing ? this.replayExisting(event, existing) : this.announceCreated(created!)
+    );
+  }
+
+  /**
+   * Send deliberately broken events, count of each kind. Each is tagged with
+   * metadata.malformed so acknowledgements can be scored against it.
+   */
+  async sendMalformedEvents(
+    teamId: string,
+    kinds: MalformedKind[] = MALFORMED_KINDS,
+    count: number = 1
+  ): Promise<Event[]> {
+    const createdEvents: Event[] = [];
+
+    for (const kind of kinds) {
+      for (let i = 0; i < count; i++) {
+        const { type, payload } = this.buildMalformedEvent(kind);
+
+        const created = await this.createEvent({
+          teamId,
+          type,
+          payload,
+          metadata: { malformed: kind },
+        });
+        createdEvents.push(created);
+      }
     }
 
+    logger.audit('Malformed events sent', { teamId, kinds, count });
+
     return createdEvents;
   }
 
   /**
-   * Create a batch of events with delays
+   * Per team and kind: how many malformed events were delivered and how teams acked them
+   */
+  async getMalformedReport(teamId?: string): Promise<MalformedEventReport[]> {
+    let query = `
+      SELECT
+        e.team_id,
+        json_extract(e.metadata, '$.malformed') AS kind,
+        COUNT(*) AS sent,
+        SUM(CASE WHEN a.outcome = 'rejected' THEN 1 ELSE 0 END) AS rejected,
+        SUM(CASE WHEN a.outcome = 'deferred' THEN 1 ELSE 0 END) AS deferred,
+        SUM(CASE WHEN a.outcome = 'handled' THEN 1 ELSE 0 END) AS handled,
+        SUM(CASE WHEN a.event_id IS NULL THEN 1 ELSE 0 END) AS unacked
+      FROM events e
+      LEFT JOIN event_acks a ON a.team_id = e.team_id AND a.event_id = e.id
+      WHERE e.${VISIBLE_CONDITION} AND json_extract(e.metadata, '$.malformed') IS NOT NULL
+    `;
+    const params: any[] = [];
+
+    if (teamId) {
+      query += ' AND e.team_id = ?';
+      params.push(teamId);
+    }
+
+    query += ' GROUP BY e.team_id, kind ORDER BY e.team_id, kind';
+
+    const rows = db.prepare(query).all(...params) as any[];
+
+    return rows.map(row => ({
+      teamId: row.team_id,
+      kind: row.kind as MalformedKind,
+      sent: row.sent,
+      rejected: row.rejected,
+      deferred: row.deferred,
+      handled: row.handled,
+      unacked: row.unacked,
+    }));
+  }
+
+  /**
+   * An order.created-like event broken in the given way
    */
-  async createDelayedEvents(teamId: string, events: CreateEventDTO[], delayMs: number): Promise<Event[]> {
+  private buildMalformedEvent(kind: MalformedKind): { type: EventType; payload: unknown } {
+    const orderId = `ORD-MAL-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+    const item = { sku: 'IT-001', qty: 1 };
+
+    switch (kind) {
+      case 'missing_fields':
+        return { type: 'order.created', payload: { items: [item] } };
+      case 'wrong_types':
+        return { type: 'order.created', payload: { orderId: Date.now(), items: [{ sku: 1, qty: 'two' }] } };
+      case 'unknown_sku':
+        return {
+          type: 'order.created',
+          payload: { orderId, items: [{ sku: `UNKNOWN-${Math.floor(Math.random() * 10000)}`, qty: 1 }] },
+        };
+      case 'negative_quantity':
+        return { type: 'order.created', payload: { orderId, items: [{ ...item, qty: -3 }] } };
+      case 'oversized_payload':
+        return {
+          type: 'order.created',
+          payload: { orderId, items: [item], customerName: 'x'.repeat(OVERSIZED_PAYLOAD_BYTES) },
+        };
+      case 'unknown_event_type':
+        // Not a member of EventType on purpose
+        return { type: 'order.shipped' as EventType, payload: { orderId, items: [item] } };
+    }
+  }
+
+  /**
+   * Schedule a batch of delayed events. Returns immediately; the scheduler
+   * releases each event once its delayedUntil time has passed.
+   */
+  async createDelayedEvents(
+    teamId: string,
+    events: ScheduledEventDTO[],
+    delayMs: number,
+    options: DelayScheduleOptions = {}
+  ): Promise<Event[]> {
+    const now = Date.now();
     const createdEvents: Event[] = [];
 
-    for (const event of events) {
-      const delayedUntil = new Date(Date.now() + delayMs).toISOString();
+    for (let i = 0; i < events.length; i++) {
+      const { offsetMs, ...event } = events[i];
+
+      // Evenly spaced slot within the spread window, unless the event has its own offset
+      const slot = events.length > 1 ? ((options.spreadMs || 0) * i) / (events.length - 1) : 0;
+      const jitter = options.jitterMs
+        ? options.jitterMs.min + Math.random() * (options.jitterMs.max - options.jitterMs.min)
+        : 0;
+
+      const dueAt = now + Math.max(0, delayMs + (offsetMs ?? slot) + jitter);
 
       const created = await this.createEvent({
         ...event,
         teamId,
         metadata: {
           ...event.metadata,
-          delayedUntil,
+          delayedUntil: new Date(dueAt).toISOString(),
         },
       });
 
       createdEvents.push(created);
-
-      // Wait before creating next event
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     return createdEvents;
   }
 
+  /**
+   * Allocate the team's next feed sequence number (call inside a transaction)
+   */
+  private nextSequence(teamId: string): number {
+    const row = db.prepare(`
+      INSERT INTO team_sequences (team_id, last_sequence) VALUES (?, 1)
+      ON CONFLICT(team_id) DO UPDATE SET last_sequence = last_sequence + 1
+      RETURNING last_sequence
+    `).get(teamId) as any;
+
+    return row.last_sequence;
+  }
+
+  /**
+   * Deliver an event that has become visible to the team
+   */
+  private publish(event: Event): void {
+    StreamService.publish({ kind: 'event', teamId: event.teamId, data: event });
+
+    // Push to the team's webhook if enabled
+    if (config.webhookEnabled) {
+      WebhookService.sendEvent(event).catch(err => {
+        logger.error('Failed to send event webhook', err);
+      });
+    }
+  }
+
   private mapRowToEvent(row: any): Event {
     return {
       id: row.id,
@@ -207,7 +1073,31 @@ export class EventService {
       payload: JSON.parse(row.payload),
       createdAt: row.created_at,
       processedAt: row.processed_at,
+      sequence: row.sequence ?? undefined,
+      ...(row.delivered_at && { deliveredAt: row.delivered_at }),
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      ...(row.idempotency_key && { idempotencyKey: row.idempotency_key }),
+      ...(row.acked_at && {
+        ack: {
+          eventId: row.id,
+          teamId: row.team_id,
+          outcome: row.ack_outcome,
+          ...(row.ack_note && { note: row.ack_note }),
+          ackedAt: row.acked_at,
+        },
+      }),
+    };
+  }
+
+  private mapRowToRedelivery(row: any): EventRedelivery {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      teamId: row.team_id,
+      deliverAt: row.deliver_at,
+      deliveredAt: row.delivered_at,
+      sequence: row.sequence,
+      createdAt: row.created_at,
     };
   }
 }
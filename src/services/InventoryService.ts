@@ -1,7 +1,41 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Inventory, InventoryEvent, RestockDTO, ReserveDTO } from '../models/Inventory';
+import {
+  Inventory,
+  InventoryDrift,
+  InventoryEvent,
+  InventoryEventType,
+  InventoryLevels,
+  InventoryLineDTO,
+  InventoryLineResult,
+  InventoryLineStatus,
+  InventoryReservation,
+  OrderReservationLine,
+  OrderReservationResult,
+  ReorderPoint,
+  ReservationLine,
+  ReservationStatus,
+  ReservationTtl,
+  RestockDTO,
+  ReserveDTO,
+} from '../models/Inventory';
 import { db } from '../database/connection';
 import logger from '../utils/logger';
+import config from '../config';
+import { AppError, VersionConflictError } from '../middleware/errorHandler';
+import StreamService from './StreamService';
+import EventService from './EventService';
+
+interface InventoryChange {
+  stock: number;
+  reserved: number;
+  log: Pick<InventoryEvent, 'type' | 'quantity' | 'by' | 'orderId'>;
+  afterUpdate?: () => void; // Further writes that commit or roll back with the change
+}
+
+interface MutationResult {
+  before: Inventory;
+  applied: boolean; // false when the change was declined (e.g. not enough stock)
+}
 
 export class InventoryService {
   /**
@@ -17,9 +51,11 @@ export class InventoryService {
         i.reserved,
         (i.stock - i.reserved) as available,
         i.version,
+        COALESCE(t.reorder_point, s.reorder_point) as reorder_point,
         i.updated_at
       FROM inventory i
       JOIN skus s ON i.sku = s.sku
+      LEFT JOIN team_reorder_points t ON t.team_id = i.team_id AND t.sku = i.sku
       WHERE i.team_id = ?
       ORDER BY i.sku
     `);
@@ -32,6 +68,10 @@ export class InventoryService {
    * Get single inventory item
    */
   async getInventoryItem(teamId: string, sku: string): Promise<Inventory | null> {
+    return this.findItem(teamId, sku);
+  }
+
+  private findItem(teamId: string, sku: string): Inventory | null {
     const stmt = db.prepare(`
       SELECT
         i.team_id,
@@ -41,9 +81,11 @@ export class InventoryService {
         i.reserved,
         (i.stock - i.reserved) as available,
         i.version,
+        COALESCE(t.reorder_point, s.reorder_point) as reorder_point,
         i.updated_at
       FROM inventory i
       JOIN skus s ON i.sku = s.sku
+      LEFT JOIN team_reorder_points t ON t.team_id = i.team_id AND t.sku = i.sku
       WHERE i.team_id = ? AND i.sku = ?
     `);
 
@@ -57,155 +99,298 @@ export class InventoryService {
   async restock(dto: RestockDTO): Promise<void> {
     logger.audit('Inventory restocked', { teamId: dto.teamId, sku: dto.sku, qty: dto.quantity });
 
-    const current = await this.getInventoryItem(dto.teamId, dto.sku);
+    const result = this.mutate(dto.teamId, dto.sku, current => ({
+      stock: current.stock + dto.quantity,
+      reserved: current.reserved,
+      log: { type: 'restocked', quantity: dto.quantity, by: dto.by },
+    }));
 
-    if (!current) {
-      throw new Error(`Inventory not found for ${dto.teamId}/${dto.sku}`);
+    if (!result) {
+      throw new AppError(404, `Inventory not found for ${dto.teamId}/${dto.sku}`);
     }
 
-    const newStock = current.stock + dto.quantity;
+    await this.publishChange(result.before);
+  }
 
-    // Update inventory with version check
-    const updateStmt = db.prepare(`
-      UPDATE inventory
-      SET stock = ?, version = version + 1, updated_at = ?
-      WHERE team_id = ? AND sku = ? AND version = ?
-    `);
+  /**
+   * Reserve inventory (decrease available). The hold is recorded against the
+   * order and expires after the TTL of the SKU's category.
+   */
+  async reserve(dto: ReserveDTO): Promise<boolean> {
+    const result = this.mutate(dto.teamId, dto.sku, current => this.reserveChange(current, dto), dto.expectedVersion);
 
-    const result = updateStmt.run(newStock, new Date().toISOString(), dto.teamId, dto.sku, current.version);
+    if (!result) {
+      throw new AppError(404, `Inventory not found for ${dto.teamId}/${dto.sku}`);
+    }
 
-    if (result.changes === 0) {
-      throw new Error('Concurrent modification detected');
+    if (!result.applied) {
+      return false;
     }
 
-    // Log to inventory_events
-    this.logInventoryEvent({
-      id: uuidv4(),
-      teamId: dto.teamId,
-      sku: dto.sku,
-      type: 'restocked',
-      quantity: dto.quantity,
-      previousStock: current.stock,
-      newStock: newStock,
-      by: dto.by,
-      createdAt: new Date().toISOString(),
-    });
+    await this.publishChange(result.before);
+
+    return true;
   }
 
   /**
-   * Reserve inventory (decrease available)
+   * Release units the order holds back to available (stock is unchanged)
    */
-  async reserve(dto: ReserveDTO): Promise<boolean> {
-    const current = await this.getInventoryItem(dto.teamId, dto.sku);
+  async release(teamId: string, sku: string, quantity: number, orderId: string): Promise<InventoryLineResult> {
+    const [line] = await this.settleOrderLines(teamId, orderId, [{ sku, qty: quantity }], 'released');
+    return line;
+  }
 
-    if (!current) {
-      throw new Error(`Inventory not found for ${dto.teamId}/${dto.sku}`);
-    }
+  /**
+   * Commit units the order holds: the goods leave, so stock and reserved both decrease
+   */
+  async commit(teamId: string, sku: string, quantity: number, orderId: string): Promise<InventoryLineResult> {
+    const [line] = await this.settleOrderLines(teamId, orderId, [{ sku, qty: quantity }], 'committed');
+    return line;
+  }
 
-    // Check if enough stock available
-    if (current.available < dto.quantity) {
-      return false; // Not enough stock
+  /**
+   * Reserve every line of an order, or none of them. All lines are checked and
+   * reserved in one transaction; when any line is short nothing is reserved and
+   * each line reports the availability that was found. An order that still
+   * holds reservations (a retry, or auto-reserve got there first) is refused
+   * with a 409 instead of being reserved twice.
+   */
+  async reserveOrder(teamId: string, orderId: string, lines: InventoryLineDTO[]): Promise<OrderReservationResult> {
+    const merged = this.mergeLines(lines);
+
+    const result = db.transaction((): OrderReservationResult & { before: Inventory[] } => {
+      if (this.holdsReservations(teamId, orderId)) {
+        throw new AppError(409, `Order ${orderId} already holds reservations; release them before reserving again`);
+      }
+
+      const items = merged.map(line => this.findItem(teamId, line.sku));
+
+      const short = merged.some((line, i) => !items[i] || items[i]!.available < line.qty);
+      if (short) {
+        return {
+          orderId,
+          reserved: false,
+          lines: merged.map((line, i) => this.reservationLine(line, items[i])),
+          before: [],
+        };
+      }
+
+      const before = merged.map(line => {
+        const dto = { teamId, sku: line.sku, quantity: line.qty, orderId, expectedVersion: line.expectedVersion };
+        return this.mutate(teamId, line.sku, current => this.reserveChange(current, dto), dto.expectedVersion)!.before;
+      });
+
+      return {
+        orderId,
+        reserved: true,
+        lines: merged.map(line => this.reservationLine(line, this.findItem(teamId, line.sku))),
+        before,
+      };
+    })();
+
+    for (const item of result.before) {
+      await this.publishChange(item);
     }
 
-    const newReserved = current.reserved + dto.quantity;
+    return { orderId: result.orderId, reserved: result.reserved, lines: result.lines };
+  }
 
-    // Update inventory
-    const updateStmt = db.prepare(`
-      UPDATE inventory
-      SET reserved = ?, version = version + 1, updated_at = ?
-      WHERE team_id = ? AND sku = ? AND version = ?
-    `);
+  /**
+   * Release everything the order still holds
+   */
+  async releaseOrder(teamId: string, orderId: string): Promise<ReservationLine[]> {
+    return this.settleOrder(teamId, orderId, 'released');
+  }
 
-    const result = updateStmt.run(newReserved, new Date().toISOString(), dto.teamId, dto.sku, current.version);
+  /**
+   * Commit everything the order still holds
+   */
+  async commitOrder(teamId: string, orderId: string): Promise<ReservationLine[]> {
+    return this.settleOrder(teamId, orderId, 'committed');
+  }
 
-    if (result.changes === 0) {
-      throw new Error('Concurrent modification detected');
+  /**
+   * Release or commit part of what an order holds. Every line is checked
+   * against the order's held reservations, and either all lines apply or none do.
+   */
+  async settleOrderLines(
+    teamId: string,
+    orderId: string,
+    lines: InventoryLineDTO[],
+    status: 'released' | 'committed'
+  ): Promise<InventoryLineResult[]> {
+    const before = db.transaction(() => lines.map(line => {
+      const held = this.findHeld(teamId, orderId, line.sku);
+      const total = held.reduce((sum, reservation) => sum + reservation.quantity, 0);
+
+      if (total < line.qty) {
+        throw new AppError(409, `Order ${orderId} holds ${total} of ${line.sku}, cannot settle ${line.qty}`);
+      }
+
+      return this.mutate(teamId, line.sku, current => ({
+        ...this.settledLevels(current, line.qty, status),
+        log: { type: status, quantity: line.qty, by: 'system', orderId },
+        afterUpdate: () => this.settleHeld(held, line.qty, status),
+      }), line.expectedVersion)!.before;
+    }))();
+
+    const results: InventoryLineResult[] = [];
+
+    for (const [i, line] of lines.entries()) {
+      await this.publishChange(before[i]);
+      results.push(this.lineResult(teamId, line, status));
     }
 
-    // Log to inventory_events
-    this.logInventoryEvent({
-      id: uuidv4(),
-      teamId: dto.teamId,
-      sku: dto.sku,
-      type: 'reserved',
-      quantity: dto.quantity,
-      previousStock: current.stock,
-      newStock: current.stock,
-      by: 'system',
-      createdAt: new Date().toISOString(),
-    });
-
-    return true;
+    return results;
   }
 
   /**
-   * Release reserved inventory
+   * Reservation rows for an order, in any status
    */
-  async release(teamId: string, sku: string, quantity: number, orderId: string): Promise<boolean> {
-    const current = await this.getInventoryItem(teamId, sku);
-    if (!current) return false;
+  async getOrderReservations(teamId: string, orderId: string): Promise<InventoryReservation[]> {
+    const stmt = db.prepare(`
+      SELECT * FROM inventory_reservations
+      WHERE team_id = ? AND order_id = ?
+      ORDER BY sku, created_at
+    `);
 
-    // Decrease stock and reserved
-    const newStock = current.stock - quantity;
-    const newReserved = current.reserved - quantity;
+    const rows = stmt.all(teamId, orderId) as any[];
+    return rows.map(this.mapRowToReservation);
+  }
 
-    if (newStock < 0 || newReserved < 0) {
-      throw new Error('Invalid release: would result in negative values');
+  /**
+   * Manual adjustment (staff only)
+   */
+  async adjust(teamId: string, sku: string, quantity: number, reason: string, by: 'staff'): Promise<void> {
+    const result = this.mutate(teamId, sku, current => {
+      const newStock = current.stock + quantity;
+      if (newStock < 0) {
+        throw new Error('Cannot adjust to negative stock');
+      }
+
+      return {
+        stock: newStock,
+        reserved: current.reserved,
+        log: { type: 'adjusted', quantity, by },
+      };
+    });
+
+    if (!result) {
+      throw new AppError(404, `Inventory not found for ${teamId}/${sku}`);
     }
 
-    const updateStmt = db.prepare(`
-      UPDATE inventory
-      SET stock = ?, reserved = ?, version = version + 1, updated_at = ?
-      WHERE team_id = ? AND sku = ? AND version = ?
+    await this.publishChange(result.before);
+  }
+
+  /**
+   * Reservations still held past their expiry, oldest first
+   */
+  async getExpiredReservations(now: string = new Date().toISOString()): Promise<InventoryReservation[]> {
+    const stmt = db.prepare(`
+      SELECT * FROM inventory_reservations
+      WHERE status = 'reserved' AND expires_at <= ?
+      ORDER BY expires_at
     `);
 
-    const result = updateStmt.run(newStock, newReserved, new Date().toISOString(), teamId, sku, current.version);
+    const rows = stmt.all(now) as any[];
+    return rows.map(this.mapRowToReservation);
+  }
 
-    if (result.changes === 0) {
-      throw new Error('Concurrent modification detected');
+  /**
+   * Release an expired reservation. Returns false if it was settled in the meantime.
+   */
+  async expireReservation(reservation: InventoryReservation): Promise<boolean> {
+    const { teamId, sku, quantity, orderId } = reservation;
+
+    if (!(await this.settle(teamId, sku, quantity, orderId, 'expired', reservation.id))) {
+      return false;
     }
 
+    logger.info('Reservation expired', { teamId, orderId, sku, qty: quantity });
+
     return true;
   }
 
   /**
-   * Manual adjustment (staff only)
+   * Effective reservation TTL for every SKU category
    */
-  async adjust(teamId: string, sku: string, quantity: number, reason: string, by: 'staff'): Promise<void> {
-    const current = await this.getInventoryItem(teamId, sku);
-    if (!current) {
-      throw new Error(`Inventory not found for ${teamId}/${sku}`);
-    }
+  async getReservationTtls(): Promise<ReservationTtl[]> {
+    const stmt = db.prepare(`
+      SELECT c.category, t.ttl_seconds
+      FROM (SELECT DISTINCT category FROM skus UNION SELECT category FROM reservation_ttls) c
+      LEFT JOIN reservation_ttls t ON t.category = c.category
+      ORDER BY c.category
+    `);
+
+    const rows = stmt.all() as any[];
+    return rows.map(row => ({
+      category: row.category,
+      ttlSeconds: row.ttl_seconds ?? config.reservationTtlSeconds,
+      source: row.ttl_seconds === null ? 'default' : 'category',
+    }));
+  }
 
-    const newStock = current.stock + quantity;
-    if (newStock < 0) {
-      throw new Error('Cannot adjust to negative stock');
+  /**
+   * Set the reservation TTL for a SKU category, or clear it with null to fall back to the default.
+   * Applies to reservations made from now on.
+   */
+  async setReservationTtl(category: string, ttlSeconds: number | null): Promise<void> {
+    if (ttlSeconds === null) {
+      db.prepare('DELETE FROM reservation_ttls WHERE category = ?').run(category);
+    } else {
+      db.prepare(`
+        INSERT INTO reservation_ttls (category, ttl_seconds, updated_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(category) DO UPDATE SET ttl_seconds = excluded.ttl_seconds, updated_at = excluded.updated_at
+      `).run(category, ttlSeconds, new Date().toISOString());
     }
 
-    const updateStmt = db.prepare(`
-      UPDATE inventory
-      SET stock = ?, version = version + 1, updated_at = ?
-      WHERE team_id = ? AND sku = ? AND version = ?
+    logger.audit('Reservation TTL changed', { category, ttlSeconds });
+  }
+
+  /**
+   * Reorder point of every SKU: the team's effective values when a teamId is
+   * given, otherwise the SKU defaults
+   */
+  async getReorderPoints(teamId?: string): Promise<ReorderPoint[]> {
+    const stmt = db.prepare(`
+      SELECT s.sku, s.reorder_point AS sku_point, t.reorder_point AS team_point
+      FROM skus s
+      LEFT JOIN team_reorder_points t ON t.sku = s.sku AND t.team_id = ?
+      ORDER BY s.sku
     `);
 
-    const result = updateStmt.run(newStock, new Date().toISOString(), teamId, sku, current.version);
+    const rows = stmt.all(teamId ?? null) as any[];
+    return rows.map(row => ({
+      sku: row.sku,
+      reorderPoint: row.team_point ?? row.sku_point,
+      source: row.team_point !== null ? 'team' : row.sku_point !== null ? 'sku' : 'none',
+    }));
+  }
 
-    if (result.changes === 0) {
-      throw new Error('Concurrent modification detected');
+  /**
+   * Set a SKU's reorder point, or a team's override of it when a teamId is given.
+   * null removes it. Only later drops below the new value emit a shortage.
+   */
+  async setReorderPoint(sku: string, reorderPoint: number | null, teamId?: string): Promise<void> {
+    const exists = db.prepare('SELECT 1 FROM skus WHERE sku = ?').get(sku);
+    if (!exists) {
+      throw new AppError(404, `Unknown SKU: ${sku}`);
     }
 
-    // Log to inventory_events
-    this.logInventoryEvent({
-      id: uuidv4(),
-      teamId: teamId,
-      sku: sku,
-      type: 'adjusted',
-      quantity: quantity,
-      previousStock: current.stock,
-      newStock: newStock,
-      by: by,
-      createdAt: new Date().toISOString(),
-    });
+    if (!teamId) {
+      db.prepare('UPDATE skus SET reorder_point = ? WHERE sku = ?').run(reorderPoint, sku);
+    } else if (reorderPoint === null) {
+      db.prepare('DELETE FROM team_reorder_points WHERE team_id = ? AND sku = ?').run(teamId, sku);
+    } else {
+      db.prepare(`
+        INSERT INTO team_reorder_points (team_id, sku, reorder_point, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(team_id, sku) DO UPDATE SET reorder_point = excluded.reorder_point, updated_at = excluded.updated_at
+      `).run(teamId, sku, reorderPoint, new Date().toISOString());
+    }
+
+    logger.audit('Reorder point changed', { sku, teamId, reorderPoint });
   }
 
   /**
@@ -223,15 +408,403 @@ export class InventoryService {
 
     const now = new Date().toISOString();
 
-    for (const sku of skus) {
-      insertStmt.run(teamId, sku.sku, sku.initial_stock, 0, now);
+    // The initialized row is the starting point when rebuilding from the log
+    db.transaction(() => {
+      for (const sku of skus) {
+        if (insertStmt.run(teamId, sku.sku, sku.initial_stock, 0, now).changes === 0) continue;
+
+        this.logInventoryEvent({
+          id: uuidv4(),
+          teamId,
+          sku: sku.sku,
+          type: 'initialized',
+          quantity: sku.initial_stock,
+          previousStock: 0,
+          newStock: sku.initial_stock,
+          previousReserved: 0,
+          newReserved: 0,
+          by: 'system',
+          createdAt: now,
+        });
+      }
+    })();
+  }
+
+  /**
+   * Items whose levels differ from what their audit log adds up to
+   */
+  async getInventoryDrift(teamId?: string): Promise<InventoryDrift[]> {
+    return this.replayLog(teamId).filter(item => this.hasDrift(item));
+  }
+
+  /**
+   * Reset every drifted item to the levels its audit log adds up to.
+   * Returns the drift that was corrected.
+   */
+  async rebuildFromLog(teamId?: string): Promise<InventoryDrift[]> {
+    const updateStmt = db.prepare(`
+      UPDATE inventory
+      SET stock = ?, reserved = ?, version = version + 1, updated_at = ?
+      WHERE team_id = ? AND sku = ?
+    `);
+
+    const corrected = db.transaction(() => {
+      const drifted = this.replayLog(teamId).filter(item => this.hasDrift(item));
+      const now = new Date().toISOString();
+
+      for (const item of drifted) {
+        updateStmt.run(item.rebuilt.stock, item.rebuilt.reserved, now, item.teamId, item.sku);
+      }
+
+      return drifted;
+    })();
+
+    logger.audit('Inventory rebuilt from log', { teamId, corrected: corrected.length });
+
+    for (const item of corrected) {
+      const updated = await this.getInventoryItem(item.teamId, item.sku);
+      if (updated) {
+        StreamService.publish({ kind: 'inventory', teamId: item.teamId, data: updated });
+      }
+    }
+
+    return corrected;
+  }
+
+  private recordReservation(dto: ReserveDTO): void {
+    const ttl = db.prepare(`
+      SELECT t.ttl_seconds
+      FROM skus s
+      JOIN reservation_ttls t ON t.category = s.category
+      WHERE s.sku = ?
+    `).get(dto.sku) as any;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + (ttl?.ttl_seconds ?? config.reservationTtlSeconds) * 1000);
+
+    db.prepare(`
+      INSERT INTO inventory_reservations (id, team_id, order_id, sku, quantity, status, expires_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'reserved', ?, ?, ?)
+    `).run(uuidv4(), dto.teamId, dto.orderId, dto.sku, dto.quantity, expiresAt.toISOString(), now.toISOString(), now.toISOString());
+  }
+
+  private async settleOrder(
+    teamId: string,
+    orderId: string,
+    status: 'released' | 'committed'
+  ): Promise<ReservationLine[]> {
+    const settled: ReservationLine[] = [];
+
+    for (const reservation of await this.getOrderReservations(teamId, orderId)) {
+      if (reservation.status !== 'reserved') continue;
+
+      if (await this.settle(teamId, reservation.sku, reservation.quantity, orderId, status, reservation.id)) {
+        settled.push({ sku: reservation.sku, qty: reservation.quantity });
+      }
     }
+
+    return settled;
+  }
+
+  /**
+   * Take a reservation's units out of reserved: back to available when released or
+   * expired, out of stock as well when committed. The reservation row moves to
+   * the same status; nothing changes if it is no longer held.
+   */
+  private async settle(
+    teamId: string,
+    sku: string,
+    quantity: number,
+    orderId: string,
+    status: 'released' | 'committed' | 'expired',
+    reservationId: string
+  ): Promise<boolean> {
+    const result = this.mutate(teamId, sku, current => {
+      if (!this.isHeld(reservationId)) return null;
+
+      return {
+        ...this.settledLevels(current, quantity, status),
+        log: { type: status, quantity, by: 'system', orderId },
+        afterUpdate: () => this.markReservation(reservationId, status),
+      };
+    });
+
+    if (!result || !result.applied) {
+      return false;
+    }
+
+    await this.publishChange(result.before);
+
+    return true;
+  }
+
+  private settledLevels(current: Inventory, quantity: number, status: ReservationStatus): InventoryLevels {
+    const stock = status === 'committed' ? current.stock - quantity : current.stock;
+    const reserved = current.reserved - quantity;
+
+    if (stock < 0 || reserved < 0) {
+      throw new Error(`Invalid ${status === 'committed' ? 'commit' : 'release'}: would result in negative values`);
+    }
+
+    return { stock, reserved };
+  }
+
+  /**
+   * Move the first `quantity` units of the order's held reservations for a SKU
+   * to a settled status, splitting a reservation that is only partly settled
+   */
+  private settleHeld(held: InventoryReservation[], quantity: number, status: ReservationStatus): void {
+    let remaining = quantity;
+
+    for (const reservation of held) {
+      if (remaining === 0) break;
+
+      const take = Math.min(reservation.quantity, remaining);
+      remaining -= take;
+
+      if (take === reservation.quantity) {
+        this.markReservation(reservation.id, status);
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      db.prepare('UPDATE inventory_reservations SET quantity = quantity - ?, updated_at = ? WHERE id = ?')
+        .run(take, now, reservation.id);
+      db.prepare(`
+        INSERT INTO inventory_reservations (id, team_id, order_id, sku, quantity, status, expires_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(uuidv4(), reservation.teamId, reservation.orderId, reservation.sku, take, status,
+        reservation.expiresAt, reservation.createdAt, now);
+    }
+  }
+
+  private isHeld(reservationId: string): boolean {
+    const row = db.prepare('SELECT status FROM inventory_reservations WHERE id = ?').get(reservationId) as any;
+    return row?.status === 'reserved';
+  }
+
+  private markReservation(reservationId: string, status: ReservationStatus): void {
+    db.prepare('UPDATE inventory_reservations SET status = ?, updated_at = ? WHERE id = ?')
+      .run(status, new Date().toISOString(), reservationId);
+  }
+
+  /**
+   * Apply a change computed from the current levels. The update, its audit row
+   * (before and after levels) and any follow-up writes commit together. The
+   * levels are read inside the same synchronous transaction, so no other write
+   * can land in between; the only version conflict is a caller's expectedVersion
+   * that the item has moved past, which throws a VersionConflictError (409).
+   * Returns null if the team has no inventory for the SKU.
+   */
+  private mutate(
+    teamId: string,
+    sku: string,
+    compute: (current: Inventory) => InventoryChange | null,
+    expectedVersion?: number
+  ): MutationResult | null {
+    const updateStmt = db.prepare(`
+      UPDATE inventory
+      SET stock = ?, reserved = ?, version = version + 1, updated_at = ?
+      WHERE team_id = ? AND sku = ?
+    `);
+
+    return db.transaction((): MutationResult | null => {
+      const current = this.findItem(teamId, sku);
+      if (!current) return null;
+
+      if (expectedVersion !== undefined && current.version !== expectedVersion) {
+        throw new VersionConflictError(
+          `Inventory ${teamId}/${sku} is at version ${current.version}, expected ${expectedVersion}`
+        );
+      }
+
+      const change = compute(current);
+      if (!change) return { before: current, applied: false };
+
+      const now = new Date().toISOString();
+      updateStmt.run(change.stock, change.reserved, now, teamId, sku);
+
+      this.logInventoryEvent({
+        id: uuidv4(),
+        teamId,
+        sku,
+        ...change.log,
+        previousStock: current.stock,
+        newStock: change.stock,
+        previousReserved: current.reserved,
+        newReserved: change.reserved,
+        createdAt: now,
+      });
+
+      change.afterUpdate?.();
+
+      return { before: current, applied: true };
+    })();
+  }
+
+  private reserveChange(current: Inventory, dto: ReserveDTO): InventoryChange | null {
+    // Not enough stock
+    if (current.available < dto.quantity) return null;
+
+    return {
+      stock: current.stock,
+      reserved: current.reserved + dto.quantity,
+      log: { type: 'reserved', quantity: dto.quantity, by: 'system', orderId: dto.orderId },
+      afterUpdate: () => this.recordReservation(dto),
+    };
+  }
+
+  private reservationLine(line: InventoryLineDTO, item: Inventory | null): OrderReservationLine {
+    const available = item?.available ?? 0;
+    return { sku: line.sku, qty: line.qty, available, shortBy: Math.max(0, line.qty - available), version: item?.version };
+  }
+
+  private holdsReservations(teamId: string, orderId: string): boolean {
+    const row = db.prepare(`
+      SELECT 1 FROM inventory_reservations
+      WHERE team_id = ? AND order_id = ? AND status = 'reserved'
+      LIMIT 1
+    `).get(teamId, orderId);
+
+    return row !== undefined;
+  }
+
+  private findHeld(teamId: string, orderId: string, sku: string): InventoryReservation[] {
+    const rows = db.prepare(`
+      SELECT * FROM inventory_reservations
+      WHERE team_id = ? AND order_id = ? AND sku = ? AND status = 'reserved'
+      ORDER BY created_at
+    `).all(teamId, orderId, sku) as any[];
+
+    return rows.map(this.mapRowToReservation);
+  }
+
+  private lineResult(teamId: string, line: InventoryLineDTO, status: InventoryLineStatus): InventoryLineResult {
+    const item = this.findItem(teamId, line.sku)!;
+    return { sku: line.sku, qty: line.qty, status, available: item.available, version: item.version };
+  }
+
+  /**
+   * Combine repeated SKUs so each is reserved once
+   */
+  private mergeLines(lines: InventoryLineDTO[]): InventoryLineDTO[] {
+    const merged = new Map<string, InventoryLineDTO>();
+
+    for (const line of lines) {
+      const existing = merged.get(line.sku);
+      merged.set(line.sku, existing ? { ...existing, qty: existing.qty + line.qty } : { ...line });
+    }
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Push the item's new levels to stream subscribers, and report a shortage
+   * when available stock drops below the reorder point
+   */
+  private async publishChange(before: Inventory): Promise<void> {
+    const item = await this.getInventoryItem(before.teamId, before.sku);
+    if (!item) return;
+
+    StreamService.publish({ kind: 'inventory', teamId: item.teamId, data: item });
+
+    if (item.reorderPoint !== null && before.available >= item.reorderPoint && item.available < item.reorderPoint) {
+      await EventService.createEvent({
+        teamId: item.teamId,
+        type: 'inventory.shortage_detected',
+        payload: {
+          reason: 'reorder_point',
+          sku: item.sku,
+          available: item.available,
+          stock: item.stock,
+          reserved: item.reserved,
+          reorderPoint: item.reorderPoint,
+        },
+      });
+    }
+  }
+
+  /**
+   * Add up each item's audit log from its latest initialized row (the baseline).
+   * Items without a baseline have no complete log and are left out.
+   */
+  private replayLog(teamId?: string): InventoryDrift[] {
+    const items = db.prepare(`
+      SELECT team_id, sku, stock, reserved
+      FROM inventory
+      WHERE (? IS NULL OR team_id = ?)
+      ORDER BY team_id, sku
+    `).all(teamId ?? null, teamId ?? null) as any[];
+
+    const entries = db.prepare(`
+      SELECT team_id, sku, type, quantity, new_stock, new_reserved
+      FROM inventory_events
+      WHERE (? IS NULL OR team_id = ?)
+      ORDER BY rowid
+    `).all(teamId ?? null, teamId ?? null) as any[];
+
+    const byItem = new Map<string, any[]>();
+    for (const entry of entries) {
+      const key = `${entry.team_id}/${entry.sku}`;
+      byItem.set(key, [...(byItem.get(key) || []), entry]);
+    }
+
+    return items.flatMap(item => {
+      const log = byItem.get(`${item.team_id}/${item.sku}`) || [];
+      let rebuilt: InventoryLevels | null = null;
+      let replayed = 0;
+
+      for (const entry of log) {
+        if (entry.type === 'initialized') {
+          rebuilt = { stock: entry.new_stock, reserved: entry.new_reserved ?? 0 };
+          replayed = 1;
+          continue;
+        }
+
+        if (!rebuilt) continue;
+        replayed++;
+
+        switch (entry.type as InventoryEventType) {
+          case 'restocked':
+          case 'adjusted':
+            rebuilt.stock += entry.quantity;
+            break;
+          case 'reserved':
+            rebuilt.reserved += entry.quantity;
+            break;
+          case 'released':
+          case 'expired':
+            rebuilt.reserved -= entry.quantity;
+            break;
+          case 'committed':
+            rebuilt.stock -= entry.quantity;
+            rebuilt.reserved -= entry.quantity;
+            break;
+        }
+      }
+
+      if (!rebuilt) return [];
+
+      return [{
+        teamId: item.team_id,
+        sku: item.sku,
+        current: { stock: item.stock, reserved: item.reserved },
+        rebuilt,
+        entries: replayed,
+      }];
+    });
+  }
+
+  private hasDrift(item: InventoryDrift): boolean {
+    return item.current.stock !== item.rebuilt.stock || item.current.reserved !== item.rebuilt.reserved;
   }
 
   private logInventoryEvent(event: InventoryEvent): void {
     const stmt = db.prepare(`
-      INSERT INTO inventory_events (id, team_id, sku, type, quantity, previous_stock, new_stock, by, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO inventory_events (
+        id, team_id, sku, type, quantity, previous_stock, new_stock, previous_reserved, new_reserved, order_id, by, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -242,6 +815,9 @@ export class InventoryService {
       event.quantity,
       event.previousStock,
       event.newStock,
+      event.previousReserved,
+      event.newReserved,
+      event.orderId ?? null,
       event.by,
       event.createdAt
     );
@@ -256,6 +832,21 @@ export class InventoryService {
       reserved: row.reserved,
       available: row.available,
       version: row.version,
+      reorderPoint: row.reorder_point,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToReservation(row: any): InventoryReservation {
+    return {
+      id: row.id,
+      teamId: row.team_id,
+      orderId: row.order_id,
+      sku: row.sku,
+      quantity: row.quantity,
+      status: row.status,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
@@ -0,0 +1,122 @@
+import EventService from './EventService';
+import { Event, EventType } from '../models/Event';
+import { Order, OrderState, OrderFilters, OrderItem } from '../models/Order';
+
+/**
+ * Order lifecycle: the state each order event moves to and the states it is legal from
+ */
+const ORDER_TRANSITIONS: Partial<Record<EventType, { to: OrderState; from: Array<OrderState | null> }>> = {
+  'order.created': { to: 'created', from: [null] },
+  'order.paid': { to: 'paid', from: ['created'] },
+  'order.cancelled': { to: 'cancelled', from: ['created'] },
+  'order.refund_requested': { to: 'refund_requested', from: ['paid'] },
+  'order.dispute_opened': { to: 'disputed', from: ['paid', 'refund_requested'] },
+  'order.refunded': { to: 'refunded', from: ['refund_requested', 'disputed'] },
+};
+
+const DEFAULT_LIMIT = 100;
+
+export class OrderService {
+  /**
+   * Current projections of the team's orders, most recently updated first
+   */
+  async getOrders(teamId: string, filters: OrderFilters = {}): Promise<Order[]> {
+    const byOrder = new Map<string, Event[]>();
+
+    for (const event of await EventService.getDeliveredOrderEvents(teamId)) {
+      const orderId = (event.payload as any).orderId;
+      byOrder.set(orderId, [...(byOrder.get(orderId) || []), event]);
+    }
+
+    let orders = [...byOrder.entries()].map(([orderId, events]) => this.fold(teamId, orderId, events));
+
+    if (filters.state) {
+      orders = orders.filter(order => order.state === filters.state);
+    }
+
+    if (filters.anomalies) {
+      orders = orders.filter(order => order.anomalies.length > 0);
+    }
+
+    return orders
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, filters.limit || DEFAULT_LIMIT);
+  }
+
+  /**
+   * Current projection of one order, or null if the team never received an event for it
+   */
+  async getOrder(teamId: string, orderId: string): Promise<Order | null> {
+    const events = await EventService.getDeliveredOrderEvents(teamId, orderId);
+    return events.length > 0 ? this.fold(teamId, orderId, events) : null;
+  }
+
+  /**
+   * Apply events in order. Illegal transitions are recorded as anomalies and
+   * leave the state unchanged.
+   */
+  private fold(teamId: string, orderId: string, events: Event[]): Order {
+    const order: Order = {
+      orderId,
+      teamId,
+      state: null,
+      items: [],
+      createdAt: null,
+      updatedAt: events[0].processedAt || events[0].createdAt,
+      history: [],
+      anomalies: [],
+    };
+
+    for (const event of events) {
+      const transition = ORDER_TRANSITIONS[event.type];
+      const at = event.processedAt || event.createdAt;
+      const fromState = order.state;
+      const legal = !!transition && transition.from.includes(fromState);
+
+      if (legal) {
+        order.state = transition!.to;
+        this.applyPayload(order, event, at);
+      } else {
+        order.anomalies.push({
+          eventId: event.id,
+          type: event.type,
+          fromState,
+          message: fromState === null
+            ? `${event.type} before order.created`
+            : `${event.type} is not allowed in state ${fromState}`,
+        });
+      }
+
+      order.updatedAt = at;
+      order.history.push({
+        eventId: event.id,
+        type: event.type,
+        sequence: event.sequence!,
+        at,
+        fromState,
+        toState: order.state,
+        applied: legal,
+      });
+    }
+
+    return order;
+  }
+
+  private applyPayload(order: Order, event: Event, at: string): void {
+    const payload = event.payload as any;
+
+    if (event.type === 'order.created') {
+      order.items = Array.isArray(payload.items) ? (payload.items as OrderItem[]) : [];
+      order.customerName = payload.customerName;
+      order.correlationId = event.metadata?.correlationId;
+      order.createdAt = at;
+    }
+
+    if (event.type === 'order.paid') {
+      order.amount = payload.amount;
+      order.paymentMethod = payload.paymentMethod;
+    }
+  }
+}
+
+export default new OrderService();
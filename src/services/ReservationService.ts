@@ -0,0 +1,95 @@
+import EventService from './EventService';
+import InventoryService from './InventoryService';
+import StreamService from './StreamService';
+import { Event } from '../models/Event';
+import { OrderReservationResult, ReservationLine } from '../models/Inventory';
+import logger from '../utils/logger';
+
+export class ReservationService {
+  private queue: Promise<void> = Promise.resolve();
+  private unsubscribe?: () => void;
+
+  /**
+   * Move stock as order events are delivered: order.created reserves the whole order (or nothing),
+   * order.cancelled releases and order.paid commits.
+   * Replays, malformed events and events without an orderId are ignored.
+   */
+  async handleEvent(event: Event): Promise<void> {
+    if (event.metadata?.replayOf || event.metadata?.malformed) return;
+
+    const payload = event.payload as any;
+    const orderId = payload?.orderId;
+    if (typeof orderId !== 'string' || orderId.length === 0) return;
+
+    switch (event.type) {
+      case 'order.created': {
+        const lines = this.parseLines(payload.items);
+        if (lines.length === 0) return;
+
+        // Already reserved by an earlier delivery of this order
+        if ((await InventoryService.getOrderReservations(event.teamId, orderId)).length > 0) return;
+
+        const result = await InventoryService.reserveOrder(event.teamId, orderId, lines);
+        if (!result.reserved) {
+          await this.reportShortages(event, result);
+        }
+        break;
+      }
+      case 'order.cancelled':
+        await InventoryService.releaseOrder(event.teamId, orderId);
+        break;
+      case 'order.paid':
+        await InventoryService.commitOrder(event.teamId, orderId);
+        break;
+    }
+  }
+
+  /**
+   * Start reacting to delivered events. Events are handled one at a time in
+   * delivery order so that a cancellation never overtakes its reservation.
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = StreamService.subscribe(null, message => {
+      if (message.kind !== 'event') return;
+
+      const event = message.data;
+      this.queue = this.queue
+        .then(() => this.handleEvent(event))
+        .catch(error => {
+          logger.error('Automatic reservation failed', error as Error, { eventId: event.id, type: event.type });
+        });
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * One inventory.shortage_detected per short line of an order that could not be reserved,
+   * caused by the order event
+   */
+  private async reportShortages(event: Event, result: OrderReservationResult): Promise<void> {
+    for (const line of result.lines.filter(line => line.shortBy > 0)) {
+      await EventService.createEvent({
+        teamId: event.teamId,
+        type: 'inventory.shortage_detected',
+        payload: { reason: 'order', sku: line.sku, requested: line.qty, available: line.available, orderId: result.orderId },
+        metadata: { causationId: event.id },
+      });
+    }
+  }
+
+  private parseLines(items: unknown): ReservationLine[] {
+    if (!Array.isArray(items)) return [];
+
+    return items.filter(item =>
+      typeof item?.sku === 'string' && Number.isInteger(item?.qty) && item.qty > 0
+    ).map(item => ({ sku: item.sku, qty: item.qty }));
+  }
+}
+
+export default new ReservationService();
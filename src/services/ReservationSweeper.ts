@@ -0,0 +1,55 @@
+import EventService from './EventService';
+import InventoryService from './InventoryService';
+import config from '../config';
+import logger from '../utils/logger';
+
+export class ReservationSweeper {
+  /**
+   * Release every reservation whose expiry has passed and tell the team with
+   * an inventory.reservation_expired event
+   */
+  async releaseExpired(now: string = new Date().toISOString()): Promise<number> {
+    let expired = 0;
+
+    for (const reservation of await InventoryService.getExpiredReservations(now)) {
+      if (!(await InventoryService.expireReservation(reservation))) continue;
+
+      await EventService.createEvent({
+        teamId: reservation.teamId,
+        type: 'inventory.reservation_expired',
+        payload: {
+          orderId: reservation.orderId,
+          sku: reservation.sku,
+          quantity: reservation.quantity,
+          expiredAt: reservation.expiresAt,
+        },
+      });
+      expired++;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Start the sweeper loop. Expiry times are stored on the reservations, so
+   * anything that expired while the server was down is released on the first tick.
+   */
+  start(intervalMs: number = config.reservationSweepIntervalMs): NodeJS.Timeout {
+    let running = false;
+
+    return setInterval(async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        await this.releaseExpired();
+      } catch (error) {
+        logger.error('Reservation sweeper failed', error as Error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+  }
+}
+
+export default new ReservationSweeper();
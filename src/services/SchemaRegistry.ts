@@ -0,0 +1,162 @@
+import { EventType, EVENT_TYPES } from '../models/Event';
+import {
+  PayloadSchema,
+  EventSchemaVersion,
+  BUILTIN_EVENT_SCHEMAS,
+  PAYLOAD_SCHEMA_TYPES,
+} from '../models/EventSchema';
+import { db } from '../database/connection';
+import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export class SchemaRegistry {
+  /**
+   * Every version of a type's payload schema, oldest first
+   */
+  getVersions(type: EventType): EventSchemaVersion[] {
+    const rows = db.prepare('SELECT * FROM event_schemas WHERE type = ? ORDER BY version').all(type) as any[];
+
+    return [
+      { type, version: 1, schema: BUILTIN_EVENT_SCHEMAS[type], createdAt: null },
+      ...rows.map(this.mapRowToVersion),
+    ];
+  }
+
+  /**
+   * Get one version of a type's schema (default: the current one)
+   */
+  getSchema(type: EventType, version?: number): EventSchemaVersion | null {
+    const versions = this.getVersions(type);
+
+    if (version === undefined) {
+      return versions[versions.length - 1];
+    }
+
+    return versions.find(v => v.version === version) || null;
+  }
+
+  /**
+   * Version new events of this type are validated against and tagged with
+   */
+  getCurrentVersion(type: EventType): number {
+    const row = db.prepare('SELECT MAX(version) AS version FROM event_schemas WHERE type = ?').get(type) as any;
+    return row?.version ?? 1;
+  }
+
+  /**
+   * The current schema of every event type
+   */
+  getCurrentSchemas(): EventSchemaVersion[] {
+    return EVENT_TYPES.map(type => this.getSchema(type)!);
+  }
+
+  /**
+   * Publish a new version of a type's payload schema; new events are
+   * validated against it and tagged with its version from now on
+   */
+  publishVersion(type: EventType, schema: PayloadSchema): EventSchemaVersion {
+    const problems = this.findSchemaProblems(schema, 'schema');
+    if (problems.length > 0) {
+      throw new AppError(400, `Invalid schema: ${problems.join('; ')}`);
+    }
+
+    const insert = db.prepare(`
+      INSERT INTO event_schemas (type, version, schema, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    const entry = db.transaction(() => {
+      const version = this.getCurrentVersion(type) + 1;
+      const now = new Date().toISOString();
+
+      insert.run(type, version, JSON.stringify(schema), now);
+      return { type, version, schema, createdAt: now };
+    })();
+
+    logger.audit('Event schema published', { type, version: entry.version });
+
+    return entry;
+  }
+
+  /**
+   * Render a schema version as a standalone JSON Schema document
+   */
+  toJsonSchema(entry: EventSchemaVersion): Record<string, unknown> {
+    return {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: `/api/schemas/${entry.type}?version=${entry.version}`,
+      title: `${entry.type} payload (v${entry.version})`,
+      ...entry.schema,
+    };
+  }
+
+  /**
+   * Check that a schema only uses the keywords the validator understands
+   */
+  private findSchemaProblems(schema: any, path: string): string[] {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return [`${path} must be an object`];
+    }
+
+    const problems: string[] = [];
+
+    if (schema.type !== undefined && !PAYLOAD_SCHEMA_TYPES.includes(schema.type)) {
+      problems.push(`${path}.type must be one of: ${PAYLOAD_SCHEMA_TYPES.join(', ')}`);
+    }
+
+    if (schema.required !== undefined &&
+      (!Array.isArray(schema.required) || schema.required.some((key: unknown) => typeof key !== 'string'))) {
+      problems.push(`${path}.required must be an array of strings`);
+    }
+
+    for (const keyword of ['minItems', 'minLength', 'minimum']) {
+      if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+        problems.push(`${path}.${keyword} must be a number`);
+      }
+    }
+
+    if (schema.properties !== undefined) {
+      if (typeof schema.properties !== 'object' || schema.properties === null || Array.isArray(schema.properties)) {
+        problems.push(`${path}.properties must be an object`);
+      } else {
+        for (const [key, property] of Object.entries(schema.properties)) {
+          problems.push(...this.findSchemaProblems(property, `${path}.properties.${key}`));
+        }
+      }
+    }
+
+    if (schema.items !== undefined) {
+      problems.push(...this.findSchemaProblems(schema.items, `${path}.items`));
+    }
+
+    if (schema.enum !== undefined &&
+      (!Array.isArray(schema.enum) || schema.enum.some((value: unknown) => typeof value !== 'string' && typeof value !== 'number'))) {
+      problems.push(`${path}.enum must be an array of strings or numbers`);
+    }
+
+    if (schema.oneOf !== undefined) {
+      if (!Array.isArray(schema.oneOf) || schema.oneOf.length === 0) {
+        problems.push(`${path}.oneOf must be a non-empty array`);
+      } else {
+        schema.oneOf.forEach((variant: unknown, index: number) => {
+          problems.push(...this.findSchemaProblems(variant, `${path}.oneOf[${index}]`));
+        });
+      }
+    }
+
+    return problems;
+  }
+
+  private mapRowToVersion(row: any): EventSchemaVersion {
+    return {
+      type: row.type as EventType,
+      version: row.version,
+      schema: JSON.parse(row.schema),
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export default new SchemaRegistry();
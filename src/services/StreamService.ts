@@ -0,0 +1,46 @@
+import { EventEmitter } from 'events';
+import { StreamMessage } from '../models/Stream';
+import logger from '../utils/logger';
+
+export type StreamListener = (message: StreamMessage) => void;
+
+export class StreamService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Push a change to every subscriber of its team
+   */
+  publish(message: StreamMessage): void {
+    this.emitter.emit('message', message);
+  }
+
+  /**
+   * Subscribe to one team's changes, or to all teams with a null teamId.
+   * Returns a function that removes the subscription.
+   */
+  subscribe(teamId: string | null, listener: StreamListener): () => void {
+    const handler = (message: StreamMessage) => {
+      if (teamId !== null && message.teamId !== teamId) return;
+
+      // A broken client must not fail the request that produced the change
+      try {
+        listener(message);
+      } catch (error) {
+        logger.error('Stream listener failed', error as Error, { teamId: message.teamId, kind: message.kind });
+      }
+    };
+
+    this.emitter.on('message', handler);
+
+    return () => {
+      this.emitter.off('message', handler);
+    };
+  }
+}
+
+export default new StreamService();
@@ -8,6 +8,7 @@ export interface Team {
   name: string;
   apiKey: string;
   mode: 'development' | 'judging';
+  inventoryWrite: boolean; // Team tokens carry write:inventory
   createdAt: string;
 }
 
@@ -39,6 +40,7 @@ export class TeamService {
       name,
       apiKey,
       mode,
+      inventoryWrite: false,
       createdAt: now,
     };
   }
@@ -57,6 +59,7 @@ export class TeamService {
       name: row.name,
       apiKey: row.api_key,
       mode: row.mode,
+      inventoryWrite: row.inventory_write === 1,
       createdAt: row.created_at,
     };
   }
@@ -73,6 +76,7 @@ export class TeamService {
       name: row.name,
       apiKey: row.api_key,
       mode: row.mode,
+      inventoryWrite: row.inventory_write === 1,
       createdAt: row.created_at,
     }));
   }
@@ -89,7 +93,7 @@ export class TeamService {
     const teams = await this.getAllTeams();
 
     for (const team of teams) {
-      const newApiKey = AuthService.generateTeamToken(team.teamId, mode);
+      const newApiKey = AuthService.generateTeamToken(team.teamId, mode, team.inventoryWrite);
 
       const keyUpdateStmt = db.prepare('UPDATE teams SET api_key = ? WHERE team_id = ?');
       keyUpdateStmt.run(newApiKey, team.teamId);
@@ -116,13 +120,29 @@ export class TeamService {
       throw new Error(`Team ${teamId} not found`);
     }
 
-    const newApiKey = AuthService.generateTeamToken(teamId, team.mode);
+    const newApiKey = AuthService.generateTeamToken(teamId, team.mode, team.inventoryWrite);
 
     const stmt = db.prepare('UPDATE teams SET api_key = ? WHERE team_id = ?');
     stmt.run(newApiKey, teamId);
 
     return newApiKey;
   }
+
+  /**
+   * Grant or revoke the write:inventory scope. The team gets a new API key
+   * with the changed scopes; returns null if the team does not exist.
+   */
+  async setInventoryWrite(teamId: string, enabled: boolean): Promise<Team | null> {
+    const result = db.prepare('UPDATE teams SET inventory_write = ? WHERE team_id = ?').run(enabled ? 1 : 0, teamId);
+
+    if (result.changes === 0) {
+      return null;
+    }
+
+    await this.regenerateApiKey(teamId);
+
+    return this.getTeam(teamId);
+  }
 }
 
 export default new TeamService();
@@ -0,0 +1,571 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database/connection';
+import { Event, EventType } from '../models/Event';
+import {
+  WebhookConfig,
+  EventWebhookEnvelope,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryFilters,
+  WebhookDeliveryKind,
+} from '../models/Webhook';
+import { Message } from './ChatService';
+import config from '../config';
+import logger from '../utils/logger';
+import { generateSigningSecret, signPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../utils/signature';
+
+export class WebhookService {
+  /**
+   * Get webhook URL for a team
+   */
+  getWebhookUrl(teamId: string): string | null {
+    // Check team-specific webhook
+    const stmt = db.prepare('SELECT webhook_url FROM team_webhooks WHERE team_id = ?');
+    const row = stmt.get(teamId) as any;
+
+    if (row?.webhook_url) {
+      return row.webhook_url;
+    }
+
+    // Fall back to default webhook URL
+    if (config.defaultWebhookUrl) {
+      return config.defaultWebhookUrl;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the team-specific webhook configuration
+   */
+  getWebhookConfig(teamId: string): WebhookConfig | null {
+    const stmt = db.prepare('SELECT * FROM team_webhooks WHERE team_id = ?');
+    const row = stmt.get(teamId) as any;
+
+    return row ? this.mapRowToConfig(row) : null;
+  }
+
+  /**
+   * Set webhook URL (and optionally the pushed event types) for a team
+   */
+  setWebhookUrl(teamId: string, webhookUrl: string, eventTypes?: EventType[] | null): void {
+    const now = new Date().toISOString();
+    const existing = this.getWebhookConfig(teamId);
+
+    if (existing) {
+      // Update existing, keeping the current event type selection unless a new one is given
+      const updateStmt = db.prepare(`
+        UPDATE team_webhooks
+        SET webhook_url = ?, event_types = ?, updated_at = ?
+        WHERE team_id = ?
+      `);
+      const types = eventTypes === undefined ? existing.eventTypes : eventTypes;
+      updateStmt.run(webhookUrl, types ? JSON.stringify(types) : null, now, teamId);
+    } else {
+      // Insert new
+      const insertStmt = db.prepare(`
+        INSERT INTO team_webhooks (team_id, webhook_url, event_types, signing_secret, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      insertStmt.run(
+        teamId,
+        webhookUrl,
+        eventTypes ? JSON.stringify(eventTypes) : null,
+        generateSigningSecret(),
+        now,
+        now
+      );
+    }
+
+    logger.info(`Webhook URL set for team ${teamId}`, { webhookUrl, eventTypes });
+  }
+
+  /**
+   * Choose which event types are pushed to a team's webhook (null = all)
+   */
+  setEventTypes(teamId: string, eventTypes: EventType[] | null): WebhookConfig {
+    const stmt = db.prepare(`
+      UPDATE team_webhooks
+      SET event_types = ?, updated_at = ?
+      WHERE team_id = ?
+    `);
+
+    const result = stmt.run(
+      eventTypes ? JSON.stringify(eventTypes) : null,
+      new Date().toISOString(),
+      teamId
+    );
+
+    if (result.changes === 0) {
+      throw new Error(`No webhook configured for team ${teamId}`);
+    }
+
+    logger.info(`Webhook event types set for team ${teamId}`, { eventTypes });
+
+    return this.getWebhookConfig(teamId)!;
+  }
+
+  /**
+   * Replace a team's signing secret; the old secret stops working immediately
+   */
+  rotateSigningSecret(teamId: string): string {
+    const secret = generateSigningSecret();
+
+    const stmt = db.prepare(`
+      UPDATE team_webhooks
+      SET signing_secret = ?, updated_at = ?
+      WHERE team_id = ?
+    `);
+
+    const result = stmt.run(secret, new Date().toISOString(), teamId);
+
+    if (result.changes === 0) {
+      throw new Error(`No webhook configured for team ${teamId}`);
+    }
+
+    logger.audit('Webhook signing secret rotated', { teamId });
+
+    return secret;
+  }
+
+  /**
+   * Remove webhook URL for a team
+   */
+  removeWebhookUrl(teamId: string): void {
+    const stmt = db.prepare('DELETE FROM team_webhooks WHERE team_id = ?');
+    stmt.run(teamId);
+    logger.info(`Webhook URL removed for team ${teamId}`);
+  }
+
+  /**
+   * Get all webhook configurations (admin)
+   */
+  getAllWebhooks(): WebhookConfig[] {
+    const stmt = db.prepare('SELECT * FROM team_webhooks');
+    const rows = stmt.all() as any[];
+
+    return rows.map(this.mapRowToConfig);
+  }
+
+  /**
+   * Check whether an event type should be pushed to a team's webhook
+   */
+  isSubscribed(teamId: string, type: EventType): boolean {
+    const webhook = this.getWebhookConfig(teamId);
+
+    // Teams on the default URL (or without a selection) receive every type
+    if (!webhook?.eventTypes) {
+      return true;
+    }
+
+    return webhook.eventTypes.includes(type);
+  }
+
+  /**
+   * Push an event to the team's webhook, if it subscribed to the event type
+   */
+  async sendEvent(event: Event): Promise<WebhookDelivery | null> {
+    if (!this.isSubscribed(event.teamId, event.type)) {
+      logger.debug(`Team ${event.teamId} is not subscribed to ${event.type}`);
+      return null;
+    }
+
+    const envelope: EventWebhookEnvelope = {
+      kind: 'event',
+      eventId: event.id,
+      type: event.type,
+      teamId: event.teamId,
+      payload: event.payload,
+      metadata: event.metadata || {},
+      createdAt: event.createdAt,
+      sentAt: new Date().toISOString(),
+    };
+
+    return this.enqueue(event.teamId, 'event', event.id, envelope);
+  }
+
+  /**
+   * Forward a chat message to the team's webhook
+   */
+  async sendMessage(message: Message): Promise<WebhookDelivery | null> {
+    return this.enqueue(message.teamId, 'message', message.id, message);
+  }
+
+  /**
+   * Persist a delivery in the outbox and make the first attempt
+   */
+  async enqueue(
+    teamId: string,
+    kind: WebhookDeliveryKind,
+    referenceId: string,
+    body: unknown
+  ): Promise<WebhookDelivery | null> {
+    if (!this.getWebhookUrl(teamId)) {
+      logger.debug(`No webhook URL configured for team ${teamId}`);
+      return null;
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const stmt = db.prepare(`
+      INSERT INTO webhook_deliveries (
+        id, team_id, kind, reference_id, body, status, attempts, max_attempts,
+        next_attempt_at, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+    `);
+
+    stmt.run(id, teamId, kind, referenceId, JSON.stringify(body), config.webhookMaxAttempts, now, now, now);
+
+    return this.attemptDelivery(id);
+  }
+
+  /**
+   * Attempt a pending delivery once; reschedules with backoff or dead-letters on failure
+   */
+  async attemptDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const now = new Date();
+
+    // Claim the delivery with a lease so the worker and an immediate attempt never overlap
+    const lease = new Date(now.getTime() + config.webhookTimeout + 5000).toISOString();
+    const claimStmt = db.prepare(`
+      UPDATE webhook_deliveries
+      SET next_attempt_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+    `);
+
+    const claimed = claimStmt.run(lease, now.toISOString(), deliveryId, now.toISOString());
+    if (claimed.changes === 0) {
+      return this.getDelivery(deliveryId);
+    }
+
+    const delivery = (await this.getDelivery(deliveryId))!;
+    const attempt = delivery.attempts + 1;
+    const webhookUrl = this.getWebhookUrl(delivery.teamId);
+    const signingSecret = this.getWebhookConfig(delivery.teamId)?.signingSecret ?? null;
+    const startedAt = Date.now();
+
+    const result = webhookUrl
+      ? await this.post(webhookUrl, this.buildRequestBody(delivery), signingSecret)
+      : { statusCode: null, error: 'No webhook URL configured' };
+
+    const attemptedAt = new Date().toISOString();
+
+    this.logAttempt({
+      id: uuidv4(),
+      deliveryId,
+      attempt,
+      webhookUrl,
+      statusCode: result.statusCode,
+      error: result.error,
+      durationMs: Date.now() - startedAt,
+      attemptedAt,
+    });
+
+    if (!result.error) {
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'delivered', attempts = ?, next_attempt_at = NULL, last_error = NULL,
+            delivered_at = ?, updated_at = ?
+        WHERE id = ?
+      `).run(attempt, attemptedAt, attemptedAt, deliveryId);
+
+      logger.debug('Webhook sent successfully', {
+        teamId: delivery.teamId,
+        deliveryId,
+        referenceId: delivery.referenceId,
+        webhookUrl,
+      });
+    } else if (attempt >= delivery.maxAttempts) {
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'dead_letter', attempts = ?, next_attempt_at = NULL, last_error = ?, updated_at = ?
+        WHERE id = ?
+      `).run(attempt, result.error, attemptedAt, deliveryId);
+
+      logger.warn('Webhook delivery moved to dead letter', {
+        teamId: delivery.teamId,
+        deliveryId,
+        referenceId: delivery.referenceId,
+        attempts: attempt,
+        error: result.error,
+      });
+    } else {
+      const nextAttemptAt = new Date(Date.now() + this.getBackoffMs(attempt)).toISOString();
+
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = ?
+        WHERE id = ?
+      `).run(attempt, nextAttemptAt, result.error, attemptedAt, deliveryId);
+
+      logger.warn('Webhook delivery failed, retry scheduled', {
+        teamId: delivery.teamId,
+        deliveryId,
+        referenceId: delivery.referenceId,
+        attempt,
+        nextAttemptAt,
+        error: result.error,
+      });
+    }
+
+    return this.getDelivery(deliveryId);
+  }
+
+  /**
+   * Attempt every pending delivery whose retry time has come
+   */
+  async processDueDeliveries(limit: number = 50): Promise<number> {
+    const stmt = db.prepare(`
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(new Date().toISOString(), limit) as any[];
+
+    for (const row of rows) {
+      await this.attemptDelivery(row.id);
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Start the background worker that retries pending deliveries
+   */
+  startDeliveryWorker(intervalMs: number = config.webhookWorkerIntervalMs): NodeJS.Timeout {
+    let running = false;
+
+    return setInterval(async () => {
+      if (running) return;
+      running = true;
+
+      try {
+        await this.processDueDeliveries();
+      } catch (error) {
+        logger.error('Webhook delivery worker failed', error as Error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Manually redeliver a delivery (typically a dead letter) with a fresh attempt budget
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.getDelivery(deliveryId);
+
+    if (!delivery) {
+      throw new Error(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = ?, delivered_at = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(now, now, deliveryId);
+
+    logger.audit('Webhook redelivery requested', { teamId: delivery.teamId, deliveryId });
+
+    return (await this.attemptDelivery(deliveryId))!;
+  }
+
+  /**
+   * Put dead letters (optionally one team's) back in the outbox with a fresh attempt budget.
+   * The delivery worker sends them; returns how many were requeued.
+   */
+  requeueDeadLetters(teamId?: string, limit: number = 1000): number {
+    const now = new Date().toISOString();
+
+    const result = db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = ?, delivered_at = NULL, updated_at = ?
+      WHERE id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'dead_letter' AND (? IS NULL OR team_id = ?)
+        ORDER BY created_at ASC
+        LIMIT ?
+      )
+    `).run(now, now, teamId ?? null, teamId ?? null, limit);
+
+    logger.audit('Webhook dead letters requeued', { teamId, count: result.changes });
+
+    return result.changes;
+  }
+
+  /**
+   * List deliveries in the outbox (admin)
+   */
+  async getDeliveries(filters?: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    let query = 'SELECT * FROM webhook_deliveries WHERE 1 = 1';
+    const params: any[] = [];
+
+    if (filters?.status) {
+      query += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters?.teamId) {
+      query += ' AND team_id = ?';
+      params.push(filters.teamId);
+    }
+
+    query += ' ORDER BY created_at DESC LIMIT ?';
+    params.push(filters?.limit || 100);
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map(this.mapRowToDelivery);
+  }
+
+  /**
+   * Get a single delivery by ID
+   */
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const stmt = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?');
+    const row = stmt.get(deliveryId) as any;
+
+    return row ? this.mapRowToDelivery(row) : null;
+  }
+
+  /**
+   * Get the attempt history of a delivery
+   */
+  async getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    const stmt = db.prepare(`
+      SELECT * FROM webhook_delivery_attempts
+      WHERE delivery_id = ?
+      ORDER BY attempt ASC
+    `);
+
+    const rows = stmt.all(deliveryId) as any[];
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      deliveryId: row.delivery_id,
+      attempt: row.attempt,
+      webhookUrl: row.webhook_url,
+      statusCode: row.status_code,
+      error: row.error,
+      durationMs: row.duration_ms,
+      attemptedAt: row.attempted_at,
+    }));
+  }
+
+  /**
+   * Exponential backoff after the given (1-based) failed attempt
+   */
+  private getBackoffMs(attempt: number): number {
+    return Math.min(config.webhookRetryBaseMs * 2 ** (attempt - 1), config.webhookRetryMaxMs);
+  }
+
+  private buildRequestBody(delivery: WebhookDelivery): unknown {
+    if (delivery.kind === 'event') {
+      return { ...(delivery.body as EventWebhookEnvelope), sentAt: new Date().toISOString() };
+    }
+
+    return delivery.body;
+  }
+
+  /**
+   * Send webhook to n8n (signed when the team has a signing secret)
+   */
+  private async post(
+    webhookUrl: string,
+    body: unknown,
+    signingSecret: string | null
+  ): Promise<{ statusCode: number | null; error: string | null }> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.webhookTimeout);
+
+    const rawBody = JSON.stringify(body);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (signingSecret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers[TIMESTAMP_HEADER] = timestamp.toString();
+      headers[SIGNATURE_HEADER] = signPayload(signingSecret, timestamp, rawBody);
+    }
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers,
+        body: rawBody,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        return { statusCode: response.status, error: `Webhook returned non-OK status: ${response.status}` };
+      }
+
+      return { statusCode: response.status, error: null };
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        return { statusCode: null, error: `Webhook request timed out after ${config.webhookTimeout}ms` };
+      }
+
+      return { statusCode: null, error: (error as Error).message };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private logAttempt(attempt: WebhookDeliveryAttempt): void {
+    const stmt = db.prepare(`
+      INSERT INTO webhook_delivery_attempts (
+        id, delivery_id, attempt, webhook_url, status_code, error, duration_ms, attempted_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      attempt.id,
+      attempt.deliveryId,
+      attempt.attempt,
+      attempt.webhookUrl,
+      attempt.statusCode,
+      attempt.error,
+      attempt.durationMs,
+      attempt.attemptedAt
+    );
+  }
+
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      teamId: row.team_id,
+      kind: row.kind,
+      referenceId: row.reference_id,
+      body: JSON.parse(row.body),
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deliveredAt: row.delivered_at,
+    };
+  }
+
+  private mapRowToConfig(row: any): WebhookConfig {
+    return {
+      teamId: row.team_id,
+      webhookUrl: row.webhook_url,
+      eventTypes: row.event_types ? JSON.parse(row.event_types) : null,
+      signingSecret: row.signing_secret,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export default new WebhookService();
@@ -0,0 +1,26 @@
+/**
+ * Opaque event feed cursors: base64url-encoded JSON holding the feed sequence
+ * of the last entry a client has seen, e.g. {"v":1,"seq":42}
+ */
+const CURSOR_VERSION = 1;
+
+export function encodeCursor(sequence: number): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, seq: sequence })).toString('base64url');
+}
+
+/**
+ * Decode a cursor back to its sequence; returns null for malformed cursors
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+
+    if (decoded?.v !== CURSOR_VERSION || !Number.isInteger(decoded.seq) || decoded.seq < 0) {
+      return null;
+    }
+
+    return decoded.seq;
+  } catch {
+    return null;
+  }
+}
@@ -10,7 +10,9 @@ if (!fs.existsSync(LOG_DIR)) {
 }
 
 enum LogLevel {
+  DEBUG = 'DEBUG',
   INFO = 'INFO',
+  WARN = 'WARN',
   ERROR = 'ERROR',
   AUDIT = 'AUDIT',
 }
@@ -36,11 +38,14 @@ function log(level: LogLevel, message: string, meta?: object): void {
 }
 
 export const logger = {
+  debug: (message: string, meta?: object) => log(LogLevel.DEBUG, message, meta),
   info: (message: string, meta?: object) => log(LogLevel.INFO, message, meta),
-  error: (message: string, error?: Error) => {
+  warn: (message: string, meta?: object) => log(LogLevel.WARN, message, meta),
+  error: (message: string, error?: Error, meta?: object) => {
     log(LogLevel.ERROR, message, {
       message: error?.message,
       stack: error?.stack,
+      ...meta,
     });
   },
   audit: (action: string, meta?: object) => log(LogLevel.AUDIT, action, meta),
@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+const DEFAULT_TOLERANCE_SECONDS = 300; // Reject signatures older than 5 minutes
+
+/**
+ * Generate a new webhook signing secret
+ */
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Sign a webhook body: sha256=HMAC_SHA256(secret, "<timestamp>.<body>")
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature (reference implementation for receivers)
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (!Number.isFinite(age) || age > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
@@ -1,50 +1,197 @@
-import { EventType } from '../models/Event';
+import { EventType, EVENT_TYPES } from '../models/Event';
+import { PayloadSchema } from '../models/EventSchema';
+import SchemaRegistry from '../services/SchemaRegistry';
 
-export function validateEventPayload(type: EventType, payload: unknown): boolean {
-  switch (type) {
-    case 'order.created':
-    case 'order.paid':
-      return validateOrderPayload(payload);
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
 
-    case 'order.cancelled':
-    case 'order.refund_requested':
-    case 'order.dispute_opened':
-      return validateOrderCancellationPayload(payload);
+/**
+ * Check a payload against the schema for its event type (default: the current
+ * version in the registry). Returns every failing field.
+ */
+export function validateEventPayload(type: EventType, payload: unknown, version?: number): ValidationIssue[] {
+  const entry = SchemaRegistry.getSchema(type, version);
+  return entry ? validateAgainstSchema(entry.schema, payload, 'payload') : [];
+}
 
-    case 'inventory.restocked':
-    case 'inventory.manual_adjusted':
-      return validateInventoryPayload(payload);
+/**
+ * Validate an event from a request body: a known type and a valid payload.
+ * Issues are prefixed with the event's position in the body, e.g. "events[2]."
+ */
+export function validateEvent(event: any, prefix: string = '', skipPayload: boolean = false): ValidationIssue[] {
+  if (!EVENT_TYPES.includes(event?.type)) {
+    return [{ field: `${prefix}type`, message: `must be one of: ${EVENT_TYPES.join(', ')}` }];
+  }
 
-    default:
-      return true; // Allow unknown event types
+  if (skipPayload) {
+    return [];
   }
+
+  return validateEventPayload(event.type, event.payload).map(issue => ({
+    ...issue,
+    field: `${prefix}${issue.field}`,
+  }));
 }
 
-function validateOrderPayload(payload: any): boolean {
-  return (
-    typeof payload === 'object' &&
-    payload !== null &&
-    typeof payload.orderId === 'string' &&
-    Array.isArray(payload.items) &&
-    payload.items.every((item: any) =>
-      typeof item.sku === 'string' && typeof item.qty === 'number'
-    )
-  );
+/**
+ * Validate a batch of events from a request body
+ */
+export function validateEvents(events: any[], skipPayload: boolean = false): ValidationIssue[] {
+  return events.flatMap((event, index) => validateEvent(event, `events[${index}].`, skipPayload));
 }
 
-function validateOrderCancellationPayload(payload: any): boolean {
-  return (
-    typeof payload === 'object' &&
-    payload !== null &&
-    typeof payload.orderId === 'string'
-  );
+const INVENTORY_LINES_SCHEMA: PayloadSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['sku', 'qty'],
+    properties: {
+      sku: { type: 'string', minLength: 1 },
+      qty: { type: 'integer', minimum: 1 },
+      expectedVersion: { type: 'integer', minimum: 1 },
+    },
+  },
+};
+
+/**
+ * Validate the line items of an inventory write request: each SKU at most once,
+ * positive integer quantities and optional expected versions
+ */
+export function validateInventoryLines(items: unknown): ValidationIssue[] {
+  const issues = validateAgainstSchema(INVENTORY_LINES_SCHEMA, items, 'items');
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const seen = new Set<string>();
+  (items as Array<{ sku: string }>).forEach((item, index) => {
+    if (seen.has(item.sku)) {
+      issues.push({ field: `items[${index}].sku`, message: `duplicates ${item.sku}` });
+    }
+    seen.add(item.sku);
+  });
+
+  return issues;
+}
+
+function validateAgainstSchema(schema: PayloadSchema, value: unknown, field: string): ValidationIssue[] {
+  const typeIssue = checkType(schema.type, value);
+  if (typeIssue) {
+    return [{ field, message: typeIssue }];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (schema.type === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined || obj[key] === null) {
+        issues.push({ field: `${field}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined && obj[key] !== null) {
+        issues.push(...validateAgainstSchema(propertySchema, obj[key], `${field}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === 'array') {
+    const items = value as unknown[];
+
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      issues.push({ field, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+
+    if (schema.items) {
+      items.forEach((item, index) => {
+        issues.push(...validateAgainstSchema(schema.items!, item, `${field}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === 'string' && schema.minLength !== undefined && (value as string).length < schema.minLength) {
+    issues.push({ field, message: `must be at least ${schema.minLength} character(s)` });
+  }
+
+  if ((schema.type === 'number' || schema.type === 'integer') && schema.minimum !== undefined && (value as number) < schema.minimum) {
+    issues.push({ field, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (schema.oneOf) {
+    issues.push(...validateOneOf(schema.oneOf, value, field));
+  }
+
+  return issues;
 }
 
-function validateInventoryPayload(payload: any): boolean {
-  return (
-    typeof payload === 'object' &&
-    payload !== null &&
-    typeof payload.sku === 'string' &&
-    typeof payload.quantity === 'number'
+/**
+ * Exactly one variant must match. When none does, report the issues of the
+ * variant the value meant: the one whose enum properties (e.g. a reason) it
+ * matches, otherwise the one with the fewest issues.
+ */
+function validateOneOf(variants: PayloadSchema[], value: unknown, field: string): ValidationIssue[] {
+  const results = variants.map(variant => validateAgainstSchema(variant, value, field));
+  const matches = results.filter(issues => issues.length === 0).length;
+
+  if (matches === 1) {
+    return [];
+  }
+
+  if (matches > 1) {
+    return [{ field, message: 'matches more than one variant' }];
+  }
+
+  const obj = (value ?? {}) as Record<string, unknown>;
+  const meant = variants.flatMap((variant, index) =>
+    Object.entries(variant.properties || {}).every(([key, property]) =>
+      !property.enum || property.enum.includes(obj[key] as string | number)
+    ) ? [results[index]] : []
   );
+
+  const candidates = meant.length > 0 ? meant : results;
+  return candidates.reduce((closest, issues) => (issues.length < closest.length ? issues : closest));
+}
+
+function checkType(type: PayloadSchema['type'], value: unknown): string | null {
+  switch (type) {
+    case undefined:
+      return null;
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? null : 'must be an object';
+    case 'array':
+      return Array.isArray(value) ? null : 'must be an array';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'integer':
+      return Number.isInteger(value) ? null : 'must be an integer';
+  }
+}
+
+/**
+ * Validate an optional event type selection (undefined/null = all types).
+ * Returns the offending entries, or null when the selection is valid.
+ */
+export function findInvalidEventTypes(eventTypes: unknown): string[] | null {
+  if (eventTypes === undefined || eventTypes === null) {
+    return null;
+  }
+
+  if (!Array.isArray(eventTypes)) {
+    return [String(eventTypes)];
+  }
+
+  const invalid = eventTypes.filter(type => !EVENT_TYPES.includes(type));
+  return invalid.length > 0 ? invalid.map(String) : null;
 }
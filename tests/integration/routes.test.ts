@@ -0,0 +1,275 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import publicRoutes from '../../src/routes/public';
+import adminRoutes from '../../src/routes/admin';
+import AuthService, { Scope } from '../../src/services/AuthService';
+import WebhookService from '../../src/services/WebhookService';
+import EventService from '../../src/services/EventService';
+import InventoryService from '../../src/services/InventoryService';
+import { runMigrations } from '../../src/database/migrate';
+import db from '../../src/database/connection';
+
+describe('Route Tests', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', publicRoutes);
+  app.use('/api/admin', adminRoutes);
+
+  const teamId = 'route-test-team';
+
+  // A token with exactly the given scopes, like a restricted key issued by staff
+  const tokenWith = (...scopes: Scope[]) =>
+    jwt.sign({ teamId, scopes }, process.env.JWT_SECRET || 'dev-secret-change-in-production');
+
+  const teamToken = () => AuthService.generateTeamToken(teamId, 'development');
+  const adminToken = () => AuthService.generateAdminToken();
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    db.prepare(`
+      INSERT OR IGNORE INTO teams (team_id, name, api_key, mode, created_at)
+      VALUES (?, 'Route test team', 'unused', 'development', ?)
+    `).run(teamId, new Date().toISOString());
+  });
+
+  afterAll(() => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_reservations WHERE team_id = ?').run(teamId);
+    db.prepare("DELETE FROM inventory WHERE sku LIKE 'ROUTE-%'").run();
+    db.prepare("DELETE FROM inventory_events WHERE sku LIKE 'ROUTE-%'").run();
+    db.prepare("DELETE FROM skus WHERE sku LIKE 'ROUTE-%'").run();
+    WebhookService.removeWebhookUrl(teamId);
+    db.prepare('DELETE FROM teams WHERE team_id = ?').run(teamId);
+  });
+
+  describe('GET /api/events', () => {
+    it('should return only entries newer than afterSequence, oldest first', async () => {
+      const created = [];
+      for (const orderId of ['ORD-1', 'ORD-2', 'ORD-3']) {
+        created.push(await EventService.createEvent({ teamId, type: 'order.created', payload: { orderId } }));
+      }
+      const after = created[0].sequence!;
+
+      const response = await request(app)
+        .get(`/api/events?afterSequence=${after}`)
+        .set('Authorization', `Bearer ${teamToken()}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.events.map((e: any) => e.sequence)).toEqual([after + 1, after + 2]);
+      expect(response.body.pagination.direction).toBe('asc');
+    });
+
+    it('should reject afterSequence with direction=desc', async () => {
+      const response = await request(app)
+        .get('/api/events?afterSequence=1&direction=desc')
+        .set('Authorization', `Bearer ${teamToken()}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('delayUntil', () => {
+    const create = (delayUntil: unknown) =>
+      request(app)
+        .post('/api/admin/events')
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ teamId, type: 'order.created', payload: { orderId: 'ORD-1', items: [{ sku: 'IT-001', qty: 1 }] }, options: { delayUntil } });
+
+    it('should reject a delayUntil that is not an ISO 8601 timestamp', async () => {
+      for (const delayUntil of ['tomorrow', 'next week', '', 42]) {
+        const response = await create(delayUntil);
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/delayUntil/);
+      }
+    });
+
+    it('should store an offset delayUntil in UTC', async () => {
+      const response = await create('2099-10-20T10:00:00+02:00');
+
+      expect(response.status).toBe(201);
+      expect(response.body.metadata.delayedUntil).toBe('2099-10-20T08:00:00.000Z');
+    });
+
+    it('should reject and normalize delayUntil when replaying an event', async () => {
+      const event = await EventService.createEvent({ teamId, type: 'order.created', payload: { orderId: 'ORD-1' } });
+      const replay = (delayUntil: string) =>
+        request(app)
+          .post(`/api/admin/events/${event.id}/replay`)
+          .set('Authorization', `Bearer ${adminToken()}`)
+          .send({ delayUntil });
+
+      expect((await replay('tomorrow')).status).toBe(400);
+
+      const response = await replay('2099-10-20T10:00:00+02:00');
+      expect(response.status).toBe(201);
+      expect(response.body.metadata.delayedUntil).toBe('2099-10-20T08:00:00.000Z');
+    });
+  });
+
+  describe('inventory writes', () => {
+    const write = (action: string, token: string) =>
+      request(app)
+        .post(`/api/inventory/${action}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ orderId: 'ORD-1', items: [{ sku: 'IT-001', qty: 1 }] });
+
+    beforeAll(async () => {
+      await InventoryService.initializeTeamInventory(teamId);
+    });
+
+    it('should reject team tokens that were not granted write:inventory', async () => {
+      for (const action of ['reserve', 'release', 'commit']) {
+        const response = await write(action, teamToken());
+        expect(response.status).toBe(403);
+      }
+    });
+
+    it('should issue a key with write:inventory once staff grant it', async () => {
+      const grant = await request(app)
+        .put(`/api/admin/teams/${teamId}/inventory-write`)
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ enabled: true });
+
+      expect(grant.status).toBe(200);
+      expect(grant.body.inventoryWrite).toBe(true);
+
+      const response = await write('reserve', grant.body.apiKey);
+      expect(response.status).not.toBe(403);
+    });
+
+    it('should stop keys issued before staff revoked write:inventory', async () => {
+      const grant = await request(app)
+        .put(`/api/admin/teams/${teamId}/inventory-write`)
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ enabled: true });
+
+      await request(app)
+        .put(`/api/admin/teams/${teamId}/inventory-write`)
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ enabled: false });
+
+      for (const action of ['reserve', 'release', 'commit']) {
+        const response = await write(action, grant.body.apiKey);
+        expect(response.status).toBe(403);
+      }
+    });
+  });
+
+  describe('PUT /api/webhook/event-types', () => {
+    beforeAll(() => {
+      WebhookService.setWebhookUrl(teamId, 'http://localhost:9/webhook', null);
+    });
+
+    it('should reject a token without write:webhook', async () => {
+      const response = await request(app)
+        .put('/api/webhook/event-types')
+        .set('Authorization', `Bearer ${tokenWith('read:events', 'read:inventory')}`)
+        .send({ eventTypes: ['order.created'] });
+
+      expect(response.status).toBe(403);
+      expect(WebhookService.getWebhookConfig(teamId)?.eventTypes).toBeNull();
+    });
+
+    it('should let a team token choose event types', async () => {
+      const response = await request(app)
+        .put('/api/webhook/event-types')
+        .set('Authorization', `Bearer ${teamToken()}`)
+        .send({ eventTypes: ['order.created'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.eventTypes).toEqual(['order.created']);
+    });
+  });
+
+  describe('POST /api/admin/chaos/delayed', () => {
+    const schedule = (body: object) =>
+      request(app)
+        .post('/api/admin/chaos/delayed')
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ teamId, events: [{ type: 'order.created', payload: { orderId: 'ORD-1', items: [{ sku: 'IT-001', qty: 1 }] } }], ...body });
+
+    it('should reject a delayMinutes that is not a number in range', async () => {
+      for (const delayMinutes of ['soon', -1, 1e9]) {
+        const response = await schedule({ delayMinutes });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/delayMinutes/);
+      }
+    });
+
+    it('should reject an offsetSeconds that is not a number in range', async () => {
+      const response = await schedule({
+        events: [{ type: 'order.created', payload: { orderId: 'ORD-1', items: [{ sku: 'IT-001', qty: 1 }] }, offsetSeconds: 'later' }],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/offsetSeconds/);
+    });
+
+    it('should reject a spreadSeconds that is not a number in range', async () => {
+      for (const spreadSeconds of [-1, 1e15]) {
+        const response = await schedule({ spreadSeconds });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/spreadSeconds/);
+      }
+    });
+
+    it('should reject jitter bounds outside a day or before now', async () => {
+      for (const jitterSeconds of [1e15, [0, 1e15], [-1e15, 0], [-60, 60]]) {
+        const response = await schedule({ delayMinutes: 0, jitterSeconds });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/jitterSeconds/);
+      }
+    });
+  });
+
+  describe('POST /api/admin/chaos/duplicate', () => {
+    it('should reject an intervalSeconds that spreads the duplicates past a day', async () => {
+      const event = await EventService.createEvent({ teamId, type: 'order.created', payload: { orderId: 'ORD-1' } });
+
+      const response = await request(app)
+        .post('/api/admin/chaos/duplicate')
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ eventId: event.id, count: 3, intervalSeconds: 1e15 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/intervalSeconds/);
+    });
+  });
+
+  describe('POST /api/admin/skus', () => {
+    const create = (sku: string, price: unknown) =>
+      request(app)
+        .post('/api/admin/skus')
+        .set('Authorization', `Bearer ${adminToken()}`)
+        .send({ sku, name: 'Route widget', category: 'RouteTest', price });
+
+    it('should accept prices in whole cents', async () => {
+      for (const [i, price] of [19.99, 9.95, 4.35, 1.15, 0.29].entries()) {
+        const response = await create(`ROUTE-00${i}`, price);
+
+        expect(response.status).toBe(201);
+        expect(response.body.price).toBe(price);
+      }
+    });
+
+    it('should reject fractions of a cent', async () => {
+      const response = await create('ROUTE-100', 19.999);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject prices above the maximum', async () => {
+      for (const price of [1000000.01, Number.MAX_SAFE_INTEGER]) {
+        const response = await create('ROUTE-101', price);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/price/);
+      }
+    });
+  });
+});
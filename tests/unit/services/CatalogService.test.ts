@@ -0,0 +1,74 @@
+import CatalogService from '../../../src/services/CatalogService';
+import InventoryService from '../../../src/services/InventoryService';
+import TeamService from '../../../src/services/TeamService';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('CatalogService', () => {
+  let teamId: string;
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    teamId = (await TeamService.createTeam('Catalog test team')).teamId;
+  });
+
+  afterEach(() => {
+    db.prepare("DELETE FROM inventory_reservations WHERE sku LIKE 'CAT-%'").run();
+    db.prepare("DELETE FROM inventory_events WHERE sku LIKE 'CAT-%'").run();
+    db.prepare("DELETE FROM inventory WHERE sku LIKE 'CAT-%'").run();
+    db.prepare("DELETE FROM skus WHERE sku LIKE 'CAT-%'").run();
+  });
+
+  afterAll(() => {
+    db.prepare('DELETE FROM inventory_events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM teams WHERE team_id = ?').run(teamId);
+  });
+
+  it('should create a SKU and stock it in every existing team', async () => {
+    const sku = await CatalogService.createSku({
+      sku: 'CAT-001', name: 'Catalog widget', category: 'CatalogTest', price: 19.99, initialStock: 7,
+    });
+
+    expect(sku).toEqual({
+      sku: 'CAT-001',
+      name: 'Catalog widget',
+      category: 'CatalogTest',
+      price: 19.99,
+      currency: 'EUR',
+      status: 'active',
+      initialStock: 7,
+    });
+    expect(await InventoryService.getInventoryItem(teamId, 'CAT-001')).toMatchObject({ stock: 7, reserved: 0 });
+
+    await expect(
+      CatalogService.createSku({ sku: 'CAT-001', name: 'Again', category: 'CatalogTest', price: 1 })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should update only the given fields and filter by status', async () => {
+    await CatalogService.createSku({ sku: 'CAT-002', name: 'Old widget', category: 'CatalogTest', price: 5 });
+
+    const updated = await CatalogService.updateSku('CAT-002', { price: 4.5, status: 'discontinued' });
+    expect(updated).toMatchObject({ name: 'Old widget', price: 4.5, status: 'discontinued' });
+
+    const active = await CatalogService.getSkus({ category: 'CatalogTest', status: 'active' });
+    expect(active).toEqual([]);
+
+    await expect(CatalogService.updateSku('NOPE-404', { price: 1 })).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete an unused SKU but refuse once stock has moved', async () => {
+    await CatalogService.createSku({ sku: 'CAT-003', name: 'Unused widget', category: 'CatalogTest', price: 1 });
+    await CatalogService.createSku({ sku: 'CAT-004', name: 'Sold widget', category: 'CatalogTest', price: 1 });
+
+    await CatalogService.deleteSku('CAT-003');
+    expect(await CatalogService.getSku('CAT-003')).toBeNull();
+    expect(await InventoryService.getInventoryItem(teamId, 'CAT-003')).toBeNull();
+
+    await InventoryService.reserve({ teamId, sku: 'CAT-004', quantity: 1, orderId: 'ORD-1' });
+    await expect(CatalogService.deleteSku('CAT-004')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
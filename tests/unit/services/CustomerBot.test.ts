@@ -0,0 +1,45 @@
+import CustomerBot from '../../../src/services/CustomerBot';
+import EventService from '../../../src/services/EventService';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('CustomerBot', () => {
+  const teamId = 'bot-test-team';
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    db.prepare(
+      "INSERT OR IGNORE INTO skus (sku, name, category, initial_stock, price_cents) VALUES ('BOT-001', 'Bot widget', 'Test', 10, 1250)"
+    ).run();
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM skus WHERE sku = 'BOT-001'").run();
+  });
+
+  it('should cancel an order the team actually received', async () => {
+    const orderId = await CustomerBot.generateRandomOrder(teamId);
+
+    await CustomerBot.generateCancellation(teamId);
+
+    const events = await EventService.getOrderEvents(teamId, orderId);
+    expect(events.map(e => e.type)).toEqual(['order.created', 'order.cancelled']);
+    expect(events[1].metadata?.causationId).toBe(events[0].id);
+  });
+
+  it('should place and pay for an order before requesting a refund when there is none', async () => {
+    await CustomerBot.generateRefundRequest(teamId);
+
+    const [orderId] = await EventService.findOrdersByLatestType(teamId, ['order.refund_requested']);
+    const events = await EventService.getOrderEvents(teamId, orderId);
+
+    expect(events.map(e => e.type)).toEqual(['order.created', 'order.paid', 'order.refund_requested']);
+    expect(events.every(e => e.metadata?.correlationId === events[0].id)).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import EventScheduler from '../../../src/services/EventScheduler';
+import EventService from '../../../src/services/EventService';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('EventScheduler', () => {
+  const teamId = 'scheduler-test-team';
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+  });
+
+  it('should hide delayed events from team reads until released', async () => {
+    const past = new Date(Date.now() - 1000).toISOString();
+
+    const delayed = await EventService.createEvent({
+      teamId,
+      type: 'order.created',
+      payload: { orderId: 'ORD-001' },
+      metadata: { delayedUntil: past },
+    });
+
+    expect(await EventService.getEvents(teamId)).toEqual([]);
+
+    const all = await EventService.getEvents(teamId, { includeScheduled: true });
+    expect(all.map(e => e.id)).toEqual([delayed.id]);
+  });
+
+  it('should release due events and set processed_at', async () => {
+    const past = new Date(Date.now() - 1000).toISOString();
+    const future = new Date(Date.now() + 60000).toISOString();
+
+    const due = await EventService.createEvent({
+      teamId,
+      type: 'order.created',
+      payload: { orderId: 'ORD-001' },
+      metadata: { delayedUntil: past },
+    });
+
+    await EventService.createEvent({
+      teamId,
+      type: 'order.paid',
+      payload: { orderId: 'ORD-001' },
+      metadata: { delayedUntil: future },
+    });
+
+    const released = await EventScheduler.releaseDueEvents();
+
+    const visible = await EventService.getEvents(teamId);
+    expect(released).toBeGreaterThanOrEqual(1);
+    expect(visible.map(e => e.id)).toEqual([due.id]);
+    expect(visible[0].processedAt).toBeDefined();
+  });
+
+  it('should release an event only once', async () => {
+    const event = await EventService.createEvent({
+      teamId,
+      type: 'order.created',
+      payload: { orderId: 'ORD-001' },
+      metadata: { delayedUntil: new Date(Date.now() - 1000).toISOString() },
+    });
+
+    expect(await EventService.releaseEvent(event.id)).not.toBeNull();
+    expect(await EventService.releaseEvent(event.id)).toBeNull();
+  });
+});
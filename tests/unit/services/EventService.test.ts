@@ -1,7 +1,9 @@
 import EventService from '../../../src/services/EventService';
-import { CreateEventDTO } from '../../../src/models/Event';
+import { CreateEventDTO, EVENT_TYPES } from '../../../src/models/Event';
+import { validateEventPayload } from '../../../src/utils/validation';
 import { runMigrations } from '../../../src/database/migrate';
 import db from '../../../src/database/connection';
+import { decodeCursor } from '../../../src/utils/cursor';
 
 describe('EventService', () => {
   beforeAll(async () => {
@@ -46,7 +48,7 @@ describe('EventService', () => {
 
       const event = await EventService.createEvent(dto);
 
-      expect(event.metadata).toEqual(dto.metadata);
+      expect(event.metadata).toEqual({ ...dto.metadata, schemaVersion: 1 });
     });
 
     it('should support all event types', async () => {
@@ -76,6 +78,57 @@ describe('EventService', () => {
     });
   });
 
+  describe('idempotency keys', () => {
+    const dto: CreateEventDTO = {
+      teamId: 'test-team',
+      type: 'order.created',
+      payload: { orderId: 'ORD-001', items: [] },
+      idempotencyKey: 'retry-key-001',
+    };
+
+    it('should return the original event when a key is reused', async () => {
+      const first = await EventService.createEvent(dto);
+      const second = await EventService.createEvent(dto);
+
+      expect(first.replayed).toBeUndefined();
+      expect(second.replayed).toBe(true);
+      expect(second.id).toBe(first.id);
+      expect(await EventService.getEvents('test-team')).toHaveLength(1);
+    });
+
+    it('should create the event once for concurrent retries with the same key', async () => {
+      const [first, second] = await Promise.all([EventService.createEvent(dto), EventService.createEvent(dto)]);
+
+      expect(second.id).toBe(first.id);
+      expect([first.replayed, second.replayed]).toEqual([undefined, true]);
+      expect(await EventService.getEvents('test-team')).toHaveLength(1);
+    });
+
+    it('should scope keys per team', async () => {
+      const first = await EventService.createEvent(dto);
+      const other = await EventService.createEvent({ ...dto, teamId: 'other-team' });
+
+      expect(other.id).not.toBe(first.id);
+      expect(other.replayed).toBeUndefined();
+    });
+
+    it('should replay a reused key whose payload lists its keys in another order', async () => {
+      const first = await EventService.createEvent(dto);
+      const second = await EventService.createEvent({ ...dto, payload: { items: [], orderId: 'ORD-001' } });
+
+      expect(second.replayed).toBe(true);
+      expect(second.id).toBe(first.id);
+    });
+
+    it('should reject a reused key with a different payload', async () => {
+      await EventService.createEvent(dto);
+
+      await expect(
+        EventService.createEvent({ ...dto, payload: { orderId: 'ORD-002', items: [] } })
+      ).rejects.toThrow('Idempotency key retry-key-001 was already used with a different request');
+    });
+  });
+
   describe('getEvents', () => {
     beforeEach(async () => {
       // Create test events
@@ -200,6 +253,163 @@ describe('EventService', () => {
     });
   });
 
+  describe('replayBatch', () => {
+    // Create events that reached the feed at the given offsets (ms) from a fixed start
+    const createAt = async (offsets: number[], type: 'order.created' | 'order.paid' = 'order.created') => {
+      const start = Date.parse('2026-01-01T10:00:00.000Z');
+      const events = [];
+      for (const offset of offsets) {
+        const event = await EventService.createEvent({ teamId: 'test-team', type, payload: { orderId: 'ORD-001' } });
+        db.prepare('UPDATE events SET created_at = ? WHERE id = ?').run(new Date(start + offset).toISOString(), event.id);
+        events.push(event);
+      }
+      return events;
+    };
+
+    it('should replay a sequence range in order with a shared batch id', async () => {
+      const originals = await createAt([0, 1000, 2000, 3000]);
+
+      const result = await EventService.replayBatch({
+        teamId: 'test-team',
+        fromSequence: originals[1].sequence,
+        toSequence: originals[2].sequence,
+      });
+
+      expect(result.events.map(e => e.metadata?.replayOf)).toEqual([originals[1].id, originals[2].id]);
+      expect(result.events.every(e => e.metadata?.replayBatchId === result.batchId)).toBe(true);
+      expect(result.events.every(e => e.metadata?.delayedUntil === undefined)).toBe(true);
+    });
+
+    it('should filter by time range and type', async () => {
+      await createAt([0]);
+      const [paid] = await createAt([60000], 'order.paid');
+      await createAt([120000], 'order.paid');
+
+      const result = await EventService.replayBatch({
+        teamId: 'test-team',
+        from: '2026-01-01T10:00:30.000Z',
+        to: '2026-01-01T10:01:30.000Z',
+        types: ['order.paid'],
+      });
+
+      expect(result.events.map(e => e.metadata?.replayOf)).toEqual([paid.id]);
+    });
+
+    it('should preserve compressed spacing through delayed delivery', async () => {
+      const originals = await createAt([0, 10000, 30000]);
+
+      const result = await EventService.replayBatch({
+        teamId: 'test-team',
+        fromSequence: originals[0].sequence,
+        preserveSpacing: true,
+        compressionFactor: 10,
+      });
+
+      const [, second, third] = result.schedule.map(s => Date.parse(s.deliverAt));
+      expect(result.events[0].sequence).toBeDefined();
+      expect(result.events[1].sequence).toBeUndefined();
+      expect(third - second).toBe(2000);
+    });
+
+    it('should retarget the replay to another team', async () => {
+      const originals = await createAt([0]);
+
+      const result = await EventService.replayBatch({
+        teamId: 'test-team',
+        fromSequence: originals[0].sequence,
+        targetTeamId: 'other-team',
+      });
+
+      expect(result.targetTeamId).toBe('other-team');
+      expect(result.events[0].teamId).toBe('other-team');
+    });
+
+    it('should point replayed causation links at the replayed events', async () => {
+      const cause = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+      const effect = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.paid',
+        payload: {},
+        metadata: { correlationId: cause.id, causationId: cause.id },
+      });
+
+      const result = await EventService.replayBatch({ teamId: 'test-team', fromSequence: cause.sequence });
+
+      expect(result.events[1].metadata?.replayOf).toBe(effect.id);
+      expect(result.events[1].metadata?.causationId).toBe(result.events[0].id);
+      expect(result.events[1].metadata?.correlationId).toBe(result.events[0].id);
+    });
+  });
+
+  describe('correlation and causation', () => {
+    const order = (type: 'order.created' | 'order.paid' | 'order.cancelled', orderId = 'ORD-CHAIN') =>
+      EventService.createEvent({
+        teamId: 'test-team',
+        type,
+        payload: { orderId, items: [{ sku: 'IT-001', qty: 1 }] },
+      });
+
+    it('should link order events to the order chain', async () => {
+      const created = await order('order.created');
+      const paid = await order('order.paid');
+      const cancelled = await order('order.cancelled');
+
+      expect(created.metadata?.correlationId).toBe(created.id);
+      expect(created.metadata?.causationId).toBeUndefined();
+      expect(paid.metadata).toMatchObject({ correlationId: created.id, causationId: created.id });
+      expect(cancelled.metadata).toMatchObject({ correlationId: created.id, causationId: paid.id });
+    });
+
+    it('should inherit the correlation of an explicit cause', async () => {
+      const created = await order('order.created');
+      const restock = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'inventory.restocked',
+        payload: { sku: 'IT-001', quantity: 5 },
+        metadata: { causationId: created.id },
+      });
+
+      expect(restock.metadata).toMatchObject({ correlationId: created.id, causationId: created.id });
+    });
+
+    it('should return the causal tree of a chain', async () => {
+      const created = await order('order.created');
+      const paid = await order('order.paid');
+      await order('order.created', 'ORD-OTHER');
+
+      const chain = await EventService.getEventChain(paid.id, 'test-team');
+
+      expect(chain?.correlationId).toBe(created.id);
+      expect(chain?.count).toBe(2);
+      expect(chain?.roots.map(node => node.event.id)).toEqual([created.id]);
+      expect(chain?.roots[0].children.map(node => node.event.id)).toEqual([paid.id]);
+      expect(await EventService.getEventChain(paid.id, 'other-team')).toBeNull();
+    });
+
+    it('should link out-of-order events in their logical order', async () => {
+      const payload = { orderId: 'ORD-SHUFFLED', items: [{ sku: 'IT-001', qty: 1 }] };
+      const events = await EventService.sendOutOfOrderEvents('test-team', [
+        { teamId: 'test-team', type: 'order.created', payload },
+        { teamId: 'test-team', type: 'order.paid', payload },
+        { teamId: 'test-team', type: 'order.cancelled', payload },
+      ]);
+
+      const byType = Object.fromEntries(events.map(e => [e.type, e]));
+      expect(byType['order.paid'].metadata?.causationId).toBe(byType['order.created'].id);
+      expect(byType['order.cancelled'].metadata?.causationId).toBe(byType['order.paid'].id);
+      expect(events.every(e => e.metadata?.correlationId === byType['order.created'].id)).toBe(true);
+    });
+
+    it('should find orders by their latest event type', async () => {
+      await order('order.created', 'ORD-UNPAID');
+      await order('order.created', 'ORD-PAID');
+      await order('order.paid', 'ORD-PAID');
+
+      expect(await EventService.findOrdersByLatestType('test-team', ['order.created'])).toEqual(['ORD-UNPAID']);
+      expect(await EventService.findOrdersByLatestType('test-team', ['order.paid'])).toEqual(['ORD-PAID']);
+    });
+  });
+
   describe('markAsProcessed', () => {
     it('should mark an event as processed', async () => {
       const event = await EventService.createEvent({
@@ -244,25 +454,287 @@ describe('EventService', () => {
   });
 
   describe('sendDuplicateEvent', () => {
-    it('should return existing event (idempotent)', async () => {
+    it('should redeliver the same event ID through the feed', async () => {
+      const original = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.created',
+        payload: { orderId: 'ORD-001' },
+      });
+
+      const redeliveries = await EventService.sendDuplicateEvent(original.id);
+
+      expect(redeliveries).toHaveLength(1);
+      expect(redeliveries[0].eventId).toBe(original.id);
+      expect(redeliveries[0].deliveredAt).toBeDefined();
+
+      const feed = await EventService.getEvents('test-team');
+      expect(feed.map(e => e.id)).toEqual([original.id, original.id]);
+      expect(feed[0].payload).toEqual(original.payload);
+    });
+
+    it('should space repeated redeliveries', async () => {
       const original = await EventService.createEvent({
         teamId: 'test-team',
         type: 'order.created',
         payload: { orderId: 'ORD-001' },
       });
 
-      const duplicate = await EventService.sendDuplicateEvent(original.id);
+      const redeliveries = await EventService.sendDuplicateEvent(original.id, 3, 60000);
 
-      expect(duplicate.id).toBe(original.id);
-      expect(duplicate.teamId).toBe(original.teamId);
+      expect(redeliveries.map(r => r.deliveredAt !== null)).toEqual([true, false, false]);
+      expect(new Date(redeliveries[2].deliverAt).getTime() - new Date(redeliveries[0].deliverAt).getTime())
+        .toBe(120000);
+
+      const feed = await EventService.getEvents('test-team');
+      expect(feed).toHaveLength(2);
     });
 
     it('should throw error for non-existent event', async () => {
       await expect(EventService.sendDuplicateEvent('nonexistent-id')).rejects.toThrow();
     });
+
+    it('should refuse to duplicate a delayed event before its release', async () => {
+      const [delayed] = await EventService.createDelayedEvents(
+        'test-team',
+        [{ teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-001' } }],
+        60000
+      );
+
+      await expect(EventService.sendDuplicateEvent(delayed.id)).rejects.toMatchObject({ statusCode: 409 });
+      expect(await EventService.getEvents('test-team')).toHaveLength(0);
+    });
+
+    it('should schedule no redeliveries when one of them cannot be scheduled', async () => {
+      const original = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.created',
+        payload: { orderId: 'ORD-001' },
+      });
+
+      await expect(EventService.sendDuplicateEvent(original.id, 3, 1e16)).rejects.toThrow(RangeError);
+
+      const { count } = db.prepare('SELECT COUNT(*) AS count FROM event_redeliveries WHERE event_id = ?')
+        .get(original.id) as { count: number };
+      expect(count).toBe(0);
+    });
+  });
+
+  describe('sequence numbers', () => {
+    it('should assign consecutive per-team sequences', async () => {
+      const first = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+      await EventService.createEvent({ teamId: 'other-team', type: 'order.created', payload: {} });
+      const second = await EventService.createEvent({ teamId: 'test-team', type: 'order.paid', payload: {} });
+
+      expect(second.sequence).toBe(first.sequence! + 1);
+    });
+
+    it('should assign a delayed event its sequence on release', async () => {
+      const delayed = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.created',
+        payload: {},
+        metadata: { delayedUntil: new Date(Date.now() - 1000).toISOString() },
+      });
+      const immediate = await EventService.createEvent({ teamId: 'test-team', type: 'order.paid', payload: {} });
+
+      expect(delayed.sequence).toBeUndefined();
+
+      const released = await EventService.releaseEvent(delayed.id);
+
+      expect(released?.sequence).toBe(immediate.sequence! + 1);
+    });
+
+    it('should filter by afterSequence', async () => {
+      const first = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+      const second = await EventService.createEvent({ teamId: 'test-team', type: 'order.paid', payload: {} });
+      await EventService.sendDuplicateEvent(first.id);
+
+      const events = await EventService.getEvents('test-team', { afterSequence: first.sequence });
+
+      expect(events.map(e => e.sequence)).toEqual([second.sequence! + 1, second.sequence]);
+      expect(events.map(e => e.id)).toEqual([first.id, second.id]);
+    });
+  });
+
+  describe('getEventPage', () => {
+    const createMany = async (count: number) => {
+      const events = [];
+      for (let i = 0; i < count; i++) {
+        events.push(await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: { i } }));
+      }
+      return events;
+    };
+
+    it('should walk the feed oldest first without skipping or repeating', async () => {
+      const created = await createMany(5);
+
+      const first = await EventService.getEventPage('test-team', { direction: 'asc', limit: 2 });
+      const second = await EventService.getEventPage('test-team', {
+        direction: 'asc',
+        limit: 2,
+        cursor: decodeCursor(first.nextCursor!)!,
+      });
+      const third = await EventService.getEventPage('test-team', {
+        direction: 'asc',
+        limit: 2,
+        cursor: decodeCursor(second.nextCursor!)!,
+      });
+
+      expect([...first.events, ...second.events, ...third.events].map(e => e.id)).toEqual(created.map(e => e.id));
+      expect([first.hasMore, second.hasMore, third.hasMore]).toEqual([true, true, false]);
+    });
+
+    it('should not report more pages when the last page is exactly full', async () => {
+      await createMany(2);
+
+      const page = await EventService.getEventPage('test-team', { limit: 2 });
+
+      expect(page.events).toHaveLength(2);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should page newest first by default', async () => {
+      const created = await createMany(3);
+
+      const first = await EventService.getEventPage('test-team', { limit: 2 });
+      const second = await EventService.getEventPage('test-team', {
+        limit: 2,
+        cursor: decodeCursor(first.nextCursor!)!,
+      });
+
+      expect(first.events.map(e => e.id)).toEqual([created[2].id, created[1].id]);
+      expect(second.events.map(e => e.id)).toEqual([created[0].id]);
+    });
+
+    it('should keep the cursor on an empty ascending page', async () => {
+      await createMany(1);
+
+      const page = await EventService.getEventPage('test-team', { direction: 'asc' });
+      const empty = await EventService.getEventPage('test-team', {
+        direction: 'asc',
+        cursor: decodeCursor(page.nextCursor!)!,
+      });
+
+      expect(empty.events).toHaveLength(0);
+      expect(empty.nextCursor).toBe(page.nextCursor);
+    });
+  });
+
+  describe('acknowledgements', () => {
+    it('should record an ack and show it on the feed entry', async () => {
+      const event = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+
+      const ack = await EventService.acknowledgeEvent('test-team', { eventId: event.id, outcome: 'rejected', note: 'bad sku' });
+      const [entry] = await EventService.getEvents('test-team');
+
+      expect(ack).toMatchObject({ eventId: event.id, outcome: 'rejected', note: 'bad sku' });
+      expect(entry.ack).toMatchObject({ outcome: 'rejected', note: 'bad sku' });
+    });
+
+    it('should replace the outcome when acked again', async () => {
+      const event = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+
+      await EventService.acknowledgeEvent('test-team', { eventId: event.id, outcome: 'deferred' });
+      await EventService.acknowledgeEvent('test-team', { eventId: event.id });
+
+      const [entry] = await EventService.getEvents('test-team');
+      expect(entry.ack?.outcome).toBe('handled');
+    });
+
+    it('should not ack events outside the team feed', async () => {
+      const other = await EventService.createEvent({ teamId: 'other-team', type: 'order.created', payload: {} });
+      const delayed = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.created',
+        payload: {},
+        metadata: { delayedUntil: new Date(Date.now() + 60000).toISOString() },
+      });
+
+      const result = await EventService.acknowledgeEvents('test-team', [
+        { eventId: other.id },
+        { eventId: delayed.id },
+        { eventId: 'missing' },
+      ]);
+
+      expect(result.acknowledged).toHaveLength(0);
+      expect(result.notFound).toEqual([other.id, delayed.id, 'missing']);
+    });
+
+    it('should filter the feed to unacked events', async () => {
+      const first = await EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: {} });
+      const second = await EventService.createEvent({ teamId: 'test-team', type: 'order.paid', payload: {} });
+
+      await EventService.acknowledgeEvents('test-team', [{ eventId: first.id }]);
+
+      const events = await EventService.getEvents('test-team', { unacked: true });
+      expect(events.map(e => e.id)).toEqual([second.id]);
+
+      const [stats] = await EventService.getAckStats('test-team');
+      expect(stats).toMatchObject({ delivered: 2, acked: 1, unacked: 1 });
+      expect(stats.byOutcome.handled).toBe(1);
+    });
   });
 
   describe('sendOutOfOrderEvents', () => {
+    it('should record the logical sequence of reordered events', async () => {
+      const events: CreateEventDTO[] = Array.from({ length: 5 }, (_, i) => ({
+        teamId: 'test-team',
+        type: 'order.created' as const,
+        payload: { orderId: `ORD-${i}` },
+      }));
+
+      const created = await EventService.sendOutOfOrderEvents('test-team', events);
+      const byLogical = [...created].sort((a, b) => a.metadata!.logicalSequence! - b.metadata!.logicalSequence!);
+
+      expect(byLogical.map(e => (e.payload as any).orderId)).toEqual(['ORD-0', 'ORD-1', 'ORD-2', 'ORD-3', 'ORD-4']);
+      const sequences = created.map(e => e.sequence!).sort((a, b) => a - b);
+      expect(byLogical.map(e => e.metadata!.logicalSequence)).toEqual(sequences);
+    });
+
+    it('should keep the logical sequence when another event is created meanwhile', async () => {
+      const events: CreateEventDTO[] = Array.from({ length: 3 }, (_, i) => ({
+        teamId: 'test-team',
+        type: 'order.created' as const,
+        payload: { orderId: `ORD-${i}` },
+      }));
+
+      const [created] = await Promise.all([
+        EventService.sendOutOfOrderEvents('test-team', events),
+        EventService.createEvent({ teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-OTHER' } }),
+      ]);
+
+      const sequences = created.map(e => e.sequence!).sort((a, b) => a - b);
+      expect(sequences[2] - sequences[0]).toBe(2);
+      expect(created.map(e => e.metadata!.logicalSequence).sort((a, b) => a! - b!)).toEqual(sequences);
+    });
+
+    it('should number only the events that received a new sequence', async () => {
+      const earlier = await EventService.createEvent({
+        teamId: 'test-team',
+        type: 'order.created',
+        payload: { orderId: 'ORD-0' },
+        idempotencyKey: 'ooo-key',
+      });
+      const events: CreateEventDTO[] = [
+        { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-0' }, idempotencyKey: 'ooo-key' },
+        { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-1' }, metadata: { delayedUntil: '2099-01-01T00:00:00.000Z' } },
+        { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-2' } },
+        { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-3' } },
+      ];
+
+      const created = await EventService.sendOutOfOrderEvents('test-team', events);
+      const byOrder = new Map(created.map(e => [(e.payload as any).orderId, e]));
+
+      expect(byOrder.get('ORD-0')!.id).toBe(earlier.id);
+      expect(byOrder.get('ORD-0')!.metadata?.logicalSequence).toBeUndefined();
+      expect(byOrder.get('ORD-1')!.metadata?.logicalSequence).toBeUndefined();
+      expect([byOrder.get('ORD-2')!.metadata?.logicalSequence, byOrder.get('ORD-3')!.metadata?.logicalSequence])
+        .toEqual([earlier.sequence! + 1, earlier.sequence! + 2]);
+
+      const stored = await EventService.getEventById(byOrder.get('ORD-3')!.id);
+      expect(stored!.metadata?.logicalSequence).toBe(earlier.sequence! + 2);
+    });
+
     it('should send events out of order', async () => {
       const events: CreateEventDTO[] = [
         { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-001' } },
@@ -279,6 +751,51 @@ describe('EventService', () => {
     });
   });
 
+  describe('sendMalformedEvents', () => {
+    it('should send each kind tagged in metadata', async () => {
+      const events = await EventService.sendMalformedEvents('test-team');
+
+      expect(events.map(e => e.metadata?.malformed)).toEqual([
+        'missing_fields',
+        'wrong_types',
+        'unknown_sku',
+        'negative_quantity',
+        'oversized_payload',
+        'unknown_event_type',
+      ]);
+      expect(events.every(e => e.sequence !== undefined)).toBe(true);
+    });
+
+    it('should break the payload the way the kind says', async () => {
+      const [missing, negative, unknownType] = await EventService.sendMalformedEvents(
+        'test-team',
+        ['missing_fields', 'negative_quantity', 'unknown_event_type']
+      );
+
+      expect(validateEventPayload(missing.type, missing.payload)).toContainEqual(
+        { field: 'payload.orderId', message: 'is required' }
+      );
+      expect(validateEventPayload(negative.type, negative.payload)).toContainEqual(
+        { field: 'payload.items[0].qty', message: 'must be at least 1' }
+      );
+      expect(EVENT_TYPES).not.toContain(unknownType.type);
+    });
+
+    it('should report how the team acknowledged them', async () => {
+      const [rejected, handled] = await EventService.sendMalformedEvents('test-team', ['wrong_types'], 3);
+      await EventService.acknowledgeEvents('test-team', [
+        { eventId: rejected.id, outcome: 'rejected' },
+        { eventId: handled.id },
+      ]);
+
+      const report = await EventService.getMalformedReport('test-team');
+
+      expect(report).toEqual([
+        { teamId: 'test-team', kind: 'wrong_types', sent: 3, rejected: 1, deferred: 0, handled: 1, unacked: 1 },
+      ]);
+    });
+  });
+
   describe('createDelayedEvents', () => {
     it('should create events with delays', async () => {
       const events: CreateEventDTO[] = [
@@ -294,5 +811,63 @@ describe('EventService', () => {
         expect(event.metadata?.delayedUntil).toBeDefined();
       });
     }, 10000);
+
+    it('should return without waiting for the delay', async () => {
+      const events: CreateEventDTO[] = Array.from({ length: 20 }, (_, i) => ({
+        teamId: 'test-team',
+        type: 'order.created' as const,
+        payload: { orderId: `ORD-${i}` },
+      }));
+
+      const startedAt = Date.now();
+      await EventService.createDelayedEvents('test-team', events, 60000);
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it('should spread events across the window and honor explicit offsets', async () => {
+      const before = Date.now();
+
+      const created = await EventService.createDelayedEvents(
+        'test-team',
+        [
+          { teamId: 'test-team', type: 'order.created', payload: { orderId: 'ORD-001' } },
+          { teamId: 'test-team', type: 'order.paid', payload: { orderId: 'ORD-001' } },
+          { teamId: 'test-team', type: 'order.cancelled', payload: { orderId: 'ORD-001' }, offsetMs: 1000 },
+        ],
+        60000,
+        { spreadMs: 30000 }
+      );
+
+      const offsets = created.map(e => new Date(e.metadata!.delayedUntil!).getTime() - before);
+
+      expect(offsets[0]).toBeGreaterThanOrEqual(60000);
+      expect(offsets[0]).toBeLessThan(61000);
+      expect(offsets[1]).toBeGreaterThanOrEqual(75000);
+      expect(offsets[1]).toBeLessThan(76000);
+      expect(offsets[2]).toBeGreaterThanOrEqual(61000);
+      expect(offsets[2]).toBeLessThan(62000);
+    });
+
+    it('should keep jittered delays within the range', async () => {
+      const before = Date.now();
+
+      const created = await EventService.createDelayedEvents(
+        'test-team',
+        Array.from({ length: 10 }, (_, i) => ({
+          teamId: 'test-team',
+          type: 'order.created' as const,
+          payload: { orderId: `ORD-${i}` },
+        })),
+        10000,
+        { jitterMs: { min: -5000, max: 5000 } }
+      );
+
+      created.forEach(event => {
+        const offset = new Date(event.metadata!.delayedUntil!).getTime() - before;
+        expect(offset).toBeGreaterThanOrEqual(5000);
+        expect(offset).toBeLessThan(16000);
+      });
+    });
   });
 });
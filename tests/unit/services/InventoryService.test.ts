@@ -0,0 +1,275 @@
+import InventoryService from '../../../src/services/InventoryService';
+import EventService from '../../../src/services/EventService';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+import { VersionConflictError } from '../../../src/middleware/errorHandler';
+
+describe('InventoryService', () => {
+  const teamId = 'inventory-test-team';
+  const otherTeamId = 'inventory-test-team-2';
+
+  const shortages = (team: string = teamId) =>
+    EventService.getEvents(team, { type: 'inventory.shortage_detected' });
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    const insertSku = db.prepare(
+      "INSERT OR IGNORE INTO skus (sku, name, category, initial_stock) VALUES (?, ?, 'Test', ?)"
+    );
+    insertSku.run('INV-001', 'Inventory widget', 10);
+    insertSku.run('INV-002', 'Scarce widget', 2);
+  });
+
+  beforeEach(async () => {
+    await InventoryService.initializeTeamInventory(teamId);
+    await InventoryService.initializeTeamInventory(otherTeamId);
+  });
+
+  afterEach(() => {
+    for (const team of [teamId, otherTeamId]) {
+      db.prepare('DELETE FROM events WHERE team_id = ?').run(team);
+      db.prepare('DELETE FROM inventory WHERE team_id = ?').run(team);
+      db.prepare('DELETE FROM inventory_events WHERE team_id = ?').run(team);
+      db.prepare('DELETE FROM inventory_reservations WHERE team_id = ?').run(team);
+      db.prepare('DELETE FROM team_reorder_points WHERE team_id = ?').run(team);
+    }
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM skus WHERE sku IN ('INV-001', 'INV-002')").run();
+  });
+
+  describe('audit trail', () => {
+    const auditRows = () =>
+      db.prepare("SELECT * FROM inventory_events WHERE team_id = ? AND sku = 'INV-001' ORDER BY rowid").all(teamId) as any[];
+
+    it('should record before and after levels and the order for every change', async () => {
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 4, orderId: 'ORD-1' });
+      await InventoryService.releaseOrder(teamId, 'ORD-1');
+
+      const rows = auditRows().map(row => ({
+        type: row.type,
+        stock: [row.previous_stock, row.new_stock],
+        reserved: [row.previous_reserved, row.new_reserved],
+        orderId: row.order_id,
+      }));
+
+      expect(rows).toEqual([
+        { type: 'initialized', stock: [0, 10], reserved: [0, 0], orderId: null },
+        { type: 'reserved', stock: [10, 10], reserved: [0, 4], orderId: 'ORD-1' },
+        { type: 'released', stock: [10, 10], reserved: [4, 0], orderId: 'ORD-1' },
+      ]);
+    });
+
+    it('should report and repair drift from the log', async () => {
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 3, orderId: 'ORD-1' });
+      await InventoryService.commitOrder(teamId, 'ORD-1');
+      await InventoryService.restock({ teamId, sku: 'INV-001', quantity: 5, by: 'staff' });
+
+      expect(await InventoryService.getInventoryDrift(teamId)).toEqual([]);
+
+      // Chaos: levels changed behind the log's back
+      db.prepare('UPDATE inventory SET stock = 2, reserved = 1 WHERE team_id = ? AND sku = ?').run(teamId, 'INV-001');
+
+      const drift = await InventoryService.getInventoryDrift(teamId);
+      expect(drift).toEqual([{
+        teamId,
+        sku: 'INV-001',
+        current: { stock: 2, reserved: 1 },
+        rebuilt: { stock: 12, reserved: 0 },
+        entries: 4,
+      }]);
+
+      expect(await InventoryService.rebuildFromLog(teamId)).toEqual(drift);
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ stock: 12, reserved: 0 });
+      expect(await InventoryService.getInventoryDrift(teamId)).toEqual([]);
+    });
+
+    it('should replay from the latest baseline and leave out items without one', async () => {
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 3, orderId: 'ORD-1' });
+
+      // A baseline at the current levels, as migration 015 writes for existing items
+      db.prepare(`
+        INSERT INTO inventory_events (id, team_id, sku, type, quantity, previous_stock, new_stock, previous_reserved, new_reserved, by, created_at)
+        VALUES ('baseline-1', ?, 'INV-001', 'initialized', 10, 10, 10, 3, 3, 'system', ?)
+      `).run(teamId, new Date().toISOString());
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 1, orderId: 'ORD-2' });
+
+      // Legacy item: levels but no log at all
+      db.prepare("DELETE FROM inventory_events WHERE team_id = ? AND sku = 'INV-002'").run(teamId);
+      db.prepare("UPDATE inventory SET stock = 1 WHERE team_id = ? AND sku = 'INV-002'").run(teamId);
+
+      expect(await InventoryService.getInventoryDrift(teamId)).toEqual([]);
+      expect(await InventoryService.rebuildFromLog(teamId)).toEqual([]);
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-002')).toMatchObject({ stock: 1 });
+    });
+  });
+
+  describe('order lines', () => {
+    it('should reserve every line of an order', async () => {
+      const result = await InventoryService.reserveOrder(teamId, 'ORD-1', [
+        { sku: 'INV-001', qty: 4 },
+        { sku: 'INV-002', qty: 1 },
+      ]);
+
+      expect(result).toEqual({
+        orderId: 'ORD-1',
+        reserved: true,
+        lines: [
+          { sku: 'INV-001', qty: 4, available: 6, shortBy: 0, version: 2 },
+          { sku: 'INV-002', qty: 1, available: 1, shortBy: 0, version: 2 },
+        ],
+      });
+    });
+
+    it('should reserve nothing when any line is short and report availability per line', async () => {
+      const result = await InventoryService.reserveOrder(teamId, 'ORD-1', [
+        { sku: 'INV-001', qty: 4 },
+        { sku: 'INV-002', qty: 3 },
+        { sku: 'NOPE-404', qty: 1 },
+      ]);
+
+      expect(result).toEqual({
+        orderId: 'ORD-1',
+        reserved: false,
+        lines: [
+          { sku: 'INV-001', qty: 4, available: 10, shortBy: 0, version: 1 },
+          { sku: 'INV-002', qty: 3, available: 2, shortBy: 1, version: 1 },
+          { sku: 'NOPE-404', qty: 1, available: 0, shortBy: 1, version: undefined },
+        ],
+      });
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 0, version: 1 });
+      expect(await InventoryService.getOrderReservations(teamId, 'ORD-1')).toEqual([]);
+    });
+
+    it('should refuse to reserve an order that already holds reservations', async () => {
+      await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }]);
+
+      await expect(
+        InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }])
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 2 });
+      expect(await InventoryService.getOrderReservations(teamId, 'ORD-1')).toHaveLength(1);
+    });
+
+    it('should reserve an order again once its reservations are released', async () => {
+      await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }]);
+      await InventoryService.releaseOrder(teamId, 'ORD-1');
+
+      const result = await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }]);
+
+      expect(result.reserved).toBe(true);
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 2 });
+    });
+
+    it('should roll back every line when one has a stale expectedVersion', async () => {
+      await expect(InventoryService.reserveOrder(teamId, 'ORD-1', [
+        { sku: 'INV-001', qty: 1, expectedVersion: 1 },
+        { sku: 'INV-002', qty: 1, expectedVersion: 5 },
+      ])).rejects.toBeInstanceOf(VersionConflictError);
+
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 0, version: 1 });
+      expect(await InventoryService.getOrderReservations(teamId, 'ORD-1')).toEqual([]);
+    });
+
+    it('should settle part of a reservation and keep the rest held', async () => {
+      await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 5 }]);
+
+      const [line] = await InventoryService.settleOrderLines(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }], 'committed');
+      expect(line).toMatchObject({ status: 'committed', available: 5 });
+
+      const reservations = await InventoryService.getOrderReservations(teamId, 'ORD-1');
+      expect(reservations.map(r => [r.status, r.quantity]).sort()).toEqual([['committed', 2], ['reserved', 3]]);
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ stock: 8, reserved: 3 });
+    });
+
+    it('should refuse to settle more than the order holds', async () => {
+      await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 1 }]);
+
+      await expect(
+        InventoryService.settleOrderLines(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 2 }], 'released')
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 1 });
+    });
+
+    it('should reject a stale expectedVersion', async () => {
+      await InventoryService.reserveOrder(teamId, 'ORD-1', [{ sku: 'INV-001', qty: 1, expectedVersion: 1 }]);
+
+      await expect(
+        InventoryService.reserveOrder(teamId, 'ORD-2', [{ sku: 'INV-001', qty: 1, expectedVersion: 1 }])
+      ).rejects.toBeInstanceOf(VersionConflictError);
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 1, version: 2 });
+    });
+  });
+
+  describe('version conflicts', () => {
+    it('should throw a 409 VersionConflictError for a stale expectedVersion and write nothing', async () => {
+      const reserve = InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 1, orderId: 'ORD-1', expectedVersion: 0 });
+
+      await expect(reserve).rejects.toBeInstanceOf(VersionConflictError);
+      await expect(reserve).rejects.toMatchObject({ statusCode: 409 });
+
+      // Nothing was written: no levels, audit rows or reservation rows
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 0, version: 1 });
+      expect(db.prepare("SELECT * FROM inventory_events WHERE team_id = ? AND type = 'reserved'").all(teamId)).toHaveLength(0);
+      expect(await InventoryService.getOrderReservations(teamId, 'ORD-1')).toHaveLength(0);
+    });
+
+    it('should apply the change at the expected version and bump it', async () => {
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 1, orderId: 'ORD-1', expectedVersion: 1 });
+
+      expect(await InventoryService.getInventoryItem(teamId, 'INV-001')).toMatchObject({ reserved: 1, version: 2 });
+    });
+  });
+
+  describe('reorder points', () => {
+    it('should emit inventory.shortage_detected when available drops below the reorder point', async () => {
+      await InventoryService.setReorderPoint('INV-001', 5);
+
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 5, orderId: 'ORD-1' });
+      expect(await shortages()).toHaveLength(0);
+
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 2, orderId: 'ORD-2' });
+      await InventoryService.adjust(teamId, 'INV-001', -1, 'Damaged', 'staff');
+
+      // Already below: only the crossing reports
+      const events = await shortages();
+      expect(events).toHaveLength(1);
+      expect(events[0].payload).toEqual({ reason: 'reorder_point', sku: 'INV-001', available: 3, stock: 10, reserved: 7, reorderPoint: 5 });
+      expect(events[0].metadata?.schemaVersion).toBe(2);
+    });
+
+    it('should report again after stock recovers and drops once more', async () => {
+      await InventoryService.setReorderPoint('INV-001', 5);
+
+      await InventoryService.reserve({ teamId, sku: 'INV-001', quantity: 6, orderId: 'ORD-1' });
+      await InventoryService.releaseOrder(teamId, 'ORD-1');
+      await InventoryService.adjust(teamId, 'INV-001', -6, 'Stocktake', 'staff');
+
+      expect(await shortages()).toHaveLength(2);
+    });
+
+    it('should prefer a team override over the SKU reorder point', async () => {
+      await InventoryService.setReorderPoint('INV-001', 2);
+      await InventoryService.setReorderPoint('INV-001', 8, teamId);
+
+      await InventoryService.adjust(teamId, 'INV-001', -3, 'Stocktake', 'staff');
+      await InventoryService.adjust(otherTeamId, 'INV-001', -3, 'Stocktake', 'staff');
+
+      expect(await shortages(teamId)).toHaveLength(1);
+      expect(await shortages(otherTeamId)).toHaveLength(0);
+
+      const item = await InventoryService.getInventoryItem(teamId, 'INV-001');
+      expect(item?.reorderPoint).toBe(8);
+
+      const points = await InventoryService.getReorderPoints(otherTeamId);
+      expect(points).toContainEqual({ sku: 'INV-001', reorderPoint: 2, source: 'sku' });
+    });
+
+    it('should reject unknown SKUs', async () => {
+      await expect(InventoryService.setReorderPoint('NOPE-404', 3)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
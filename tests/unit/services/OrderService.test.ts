@@ -0,0 +1,100 @@
+import OrderService from '../../../src/services/OrderService';
+import EventService from '../../../src/services/EventService';
+import { EventType } from '../../../src/models/Event';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('OrderService', () => {
+  const teamId = 'order-test-team';
+  const items = [{ sku: 'IT-001', qty: 2 }];
+
+  const send = (type: EventType, orderId: string, extra: object = {}) =>
+    EventService.createEvent({ teamId, type, payload: { orderId, items, ...extra } });
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+  });
+
+  it('should fold an order through its lifecycle', async () => {
+    await send('order.created', 'ORD-1', { customerName: 'Ada' });
+    await send('order.paid', 'ORD-1', { amount: 120, paymentMethod: 'credit_card' });
+    await send('order.refund_requested', 'ORD-1');
+    await send('order.refunded', 'ORD-1');
+
+    const order = await OrderService.getOrder(teamId, 'ORD-1');
+
+    expect(order).toMatchObject({
+      orderId: 'ORD-1',
+      state: 'refunded',
+      items,
+      customerName: 'Ada',
+      amount: 120,
+      anomalies: [],
+    });
+    expect(order?.history.map(h => h.toState)).toEqual(['created', 'paid', 'refund_requested', 'refunded']);
+  });
+
+  it('should flag illegal transitions without applying them', async () => {
+    await send('order.created', 'ORD-2');
+    await send('order.cancelled', 'ORD-2');
+    const paid = await send('order.paid', 'ORD-2');
+
+    const order = await OrderService.getOrder(teamId, 'ORD-2');
+
+    expect(order?.state).toBe('cancelled');
+    expect(order?.anomalies).toEqual([
+      { eventId: paid.id, type: 'order.paid', fromState: 'cancelled', message: 'order.paid is not allowed in state cancelled' },
+    ]);
+    expect(order?.history[2]).toMatchObject({ applied: false, toState: 'cancelled' });
+  });
+
+  it('should ignore replayed events', async () => {
+    const created = await send('order.created', 'ORD-3');
+    await send('order.paid', 'ORD-3');
+    await EventService.replayEvent(created.id);
+
+    const order = await OrderService.getOrder(teamId, 'ORD-3');
+
+    expect(order?.state).toBe('paid');
+    expect(order?.anomalies).toEqual([]);
+    expect(order?.history).toHaveLength(2);
+  });
+
+  it('should flag events for orders that were never created', async () => {
+    await send('order.dispute_opened', 'ORD-GHOST');
+
+    const order = await OrderService.getOrder(teamId, 'ORD-GHOST');
+
+    expect(order?.state).toBeNull();
+    expect(order?.anomalies[0].message).toBe('order.dispute_opened before order.created');
+  });
+
+  it('should fold out-of-order batches in their intended order', async () => {
+    await EventService.sendOutOfOrderEvents(teamId, [
+      { teamId, type: 'order.created', payload: { orderId: 'ORD-3', items } },
+      { teamId, type: 'order.paid', payload: { orderId: 'ORD-3', items } },
+      { teamId, type: 'order.refund_requested', payload: { orderId: 'ORD-3' } },
+    ]);
+
+    const order = await OrderService.getOrder(teamId, 'ORD-3');
+
+    expect(order?.state).toBe('refund_requested');
+    expect(order?.anomalies).toEqual([]);
+  });
+
+  it('should ignore malformed chaos events and filter by state', async () => {
+    await send('order.created', 'ORD-4');
+    await send('order.created', 'ORD-5');
+    await send('order.paid', 'ORD-5');
+    await EventService.sendMalformedEvents(teamId, ['negative_quantity']);
+
+    expect((await OrderService.getOrders(teamId)).map(o => o.orderId).sort()).toEqual(['ORD-4', 'ORD-5']);
+    expect((await OrderService.getOrders(teamId, { state: 'paid' })).map(o => o.orderId)).toEqual(['ORD-5']);
+    expect(await OrderService.getOrder(teamId, 'ORD-404')).toBeNull();
+  });
+});
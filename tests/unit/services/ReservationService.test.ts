@@ -0,0 +1,101 @@
+import ReservationService from '../../../src/services/ReservationService';
+import InventoryService from '../../../src/services/InventoryService';
+import EventService from '../../../src/services/EventService';
+import { EventType } from '../../../src/models/Event';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('ReservationService', () => {
+  const teamId = 'reservation-test-team';
+
+  const send = (type: EventType, orderId: string, items = [{ sku: 'RSV-001', qty: 3 }]) =>
+    EventService.createEvent({ teamId, type, payload: { orderId, items } });
+
+  const levels = async (sku: string = 'RSV-001') => {
+    const item = await InventoryService.getInventoryItem(teamId, sku);
+    return { stock: item?.stock, reserved: item?.reserved };
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    const insertSku = db.prepare(
+      "INSERT OR IGNORE INTO skus (sku, name, category, initial_stock) VALUES (?, ?, 'Test', ?)"
+    );
+    insertSku.run('RSV-001', 'Reservation widget', 10);
+    insertSku.run('RSV-002', 'Scarce widget', 1);
+  });
+
+  beforeEach(async () => {
+    await InventoryService.initializeTeamInventory(teamId);
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_reservations WHERE team_id = ?').run(teamId);
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM skus WHERE sku IN ('RSV-001', 'RSV-002')").run();
+  });
+
+  it('should reserve on order.created and commit on order.paid', async () => {
+    await ReservationService.handleEvent(await send('order.created', 'ORD-1'));
+    expect(await levels()).toEqual({ stock: 10, reserved: 3 });
+
+    await ReservationService.handleEvent(await send('order.paid', 'ORD-1'));
+    expect(await levels()).toEqual({ stock: 7, reserved: 0 });
+
+    const reservations = await InventoryService.getOrderReservations(teamId, 'ORD-1');
+    expect(reservations.map(r => r.status)).toEqual(['committed']);
+  });
+
+  it('should release on order.cancelled', async () => {
+    await ReservationService.handleEvent(await send('order.created', 'ORD-2'));
+    await ReservationService.handleEvent(await send('order.cancelled', 'ORD-2'));
+
+    expect(await levels()).toEqual({ stock: 10, reserved: 0 });
+
+    // A late payment has nothing left to commit
+    await ReservationService.handleEvent(await send('order.paid', 'ORD-2'));
+    expect(await levels()).toEqual({ stock: 10, reserved: 0 });
+  });
+
+  it('should not reserve twice for a duplicate delivery', async () => {
+    const created = await send('order.created', 'ORD-3');
+
+    await ReservationService.handleEvent(created);
+    await ReservationService.handleEvent(created);
+
+    expect(await levels()).toEqual({ stock: 10, reserved: 3 });
+  });
+
+  it('should emit inventory.shortage_detected for the short lines of an order that cannot be reserved', async () => {
+    const created = await send('order.created', 'ORD-4', [
+      { sku: 'RSV-001', qty: 2 },
+      { sku: 'RSV-002', qty: 5 },
+    ]);
+
+    await ReservationService.handleEvent(created);
+
+    // All or nothing: the line that fits is not reserved either
+    expect(await levels('RSV-001')).toEqual({ stock: 10, reserved: 0 });
+    expect(await levels('RSV-002')).toEqual({ stock: 1, reserved: 0 });
+
+    const [shortage] = await EventService.getEvents(teamId, { type: 'inventory.shortage_detected' });
+    expect(shortage.payload).toEqual({ reason: 'order', sku: 'RSV-002', requested: 5, available: 1, orderId: 'ORD-4' });
+    expect(shortage.metadata).toMatchObject({ causationId: created.id, correlationId: created.id });
+  });
+
+  it('should ignore replays and malformed events', async () => {
+    const created = await send('order.created', 'ORD-5');
+
+    await ReservationService.handleEvent({ ...created, metadata: { replayOf: 'original-id' } });
+    await ReservationService.handleEvent({ ...created, metadata: { malformed: 'missing_fields' } });
+
+    expect(await levels()).toEqual({ stock: 10, reserved: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import ReservationSweeper from '../../../src/services/ReservationSweeper';
+import InventoryService from '../../../src/services/InventoryService';
+import EventService from '../../../src/services/EventService';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('ReservationSweeper', () => {
+  const teamId = 'sweeper-test-team';
+
+  const reserve = (orderId: string, quantity: number = 2) =>
+    InventoryService.reserve({ teamId, sku: 'SWP-001', quantity, orderId });
+
+  const inOneHour = () => new Date(Date.now() + 3600 * 1000).toISOString();
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    db.prepare(
+      "INSERT OR IGNORE INTO skus (sku, name, category, initial_stock) VALUES ('SWP-001', 'Sweeper widget', 'SweeperTest', 10)"
+    ).run();
+  });
+
+  beforeEach(async () => {
+    await InventoryService.initializeTeamInventory(teamId);
+  });
+
+  afterEach(async () => {
+    db.prepare('DELETE FROM events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_events WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM inventory_reservations WHERE team_id = ?').run(teamId);
+    await InventoryService.setReservationTtl('SweeperTest', null);
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM skus WHERE sku = 'SWP-001'").run();
+  });
+
+  it('should store each reservation with an expiry from the category TTL', async () => {
+    await InventoryService.setReservationTtl('SweeperTest', 60);
+
+    await reserve('ORD-1');
+
+    const [reservation] = await InventoryService.getOrderReservations(teamId, 'ORD-1');
+    const ttlMs = new Date(reservation.expiresAt).getTime() - new Date(reservation.createdAt).getTime();
+
+    expect(reservation).toMatchObject({ sku: 'SWP-001', quantity: 2, status: 'reserved' });
+    expect(ttlMs).toBe(60 * 1000);
+
+    const ttls = await InventoryService.getReservationTtls();
+    expect(ttls).toContainEqual({ category: 'SweeperTest', ttlSeconds: 60, source: 'category' });
+  });
+
+  it('should release expired reservations and emit inventory.reservation_expired', async () => {
+    await reserve('ORD-2');
+
+    expect(await ReservationSweeper.releaseExpired()).toBe(0);
+    expect(await ReservationSweeper.releaseExpired(inOneHour())).toBe(1);
+
+    const item = await InventoryService.getInventoryItem(teamId, 'SWP-001');
+    expect(item).toMatchObject({ stock: 10, reserved: 0 });
+
+    const [reservation] = await InventoryService.getOrderReservations(teamId, 'ORD-2');
+    expect(reservation.status).toBe('expired');
+
+    const [event] = await EventService.getEvents(teamId, { type: 'inventory.reservation_expired' });
+    expect(event.payload).toEqual({
+      orderId: 'ORD-2',
+      sku: 'SWP-001',
+      quantity: 2,
+      expiredAt: reservation.expiresAt,
+    });
+
+    // Already released: nothing left for the next sweep
+    expect(await ReservationSweeper.releaseExpired(inOneHour())).toBe(0);
+  });
+
+  it('should leave settled reservations alone', async () => {
+    await reserve('ORD-3');
+    await InventoryService.commitOrder(teamId, 'ORD-3');
+
+    expect(await ReservationSweeper.releaseExpired(inOneHour())).toBe(0);
+
+    const item = await InventoryService.getInventoryItem(teamId, 'SWP-001');
+    expect(item).toMatchObject({ stock: 8, reserved: 0 });
+  });
+
+  it('should not release units again that a SKU-level release already settled', async () => {
+    await reserve('ORD-4', 3);
+    await InventoryService.release(teamId, 'SWP-001', 2, 'ORD-4');
+
+    expect(await ReservationSweeper.releaseExpired(inOneHour())).toBe(1);
+
+    const item = await InventoryService.getInventoryItem(teamId, 'SWP-001');
+    expect(item).toMatchObject({ stock: 10, reserved: 0 });
+
+    const reservations = await InventoryService.getOrderReservations(teamId, 'ORD-4');
+    expect(reservations.map(r => [r.status, r.quantity]).sort()).toEqual([['expired', 1], ['released', 2]]);
+  });
+});
@@ -0,0 +1,71 @@
+import SchemaRegistry from '../../../src/services/SchemaRegistry';
+import EventService from '../../../src/services/EventService';
+import { validateEventPayload } from '../../../src/utils/validation';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('SchemaRegistry', () => {
+  const type = 'order.dispute_opened';
+
+  const v2 = {
+    type: 'object' as const,
+    required: ['orderId', 'reason'],
+    properties: {
+      orderId: { type: 'string' as const },
+      reason: { type: 'string' as const, minLength: 1 },
+    },
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM event_schemas WHERE type = ?').run(type);
+    db.prepare("DELETE FROM events WHERE team_id = 'schema-team'").run();
+  });
+
+  it('should start every type at the built-in version 1', () => {
+    expect(SchemaRegistry.getCurrentVersion(type)).toBe(1);
+    expect(SchemaRegistry.getVersions(type)).toHaveLength(1);
+    expect(SchemaRegistry.getCurrentSchemas().every(entry => entry.version >= 1)).toBe(true);
+  });
+
+  it('should publish new versions and validate against the current one', () => {
+    const entry = SchemaRegistry.publishVersion(type, v2);
+
+    expect(entry.version).toBe(2);
+    expect(SchemaRegistry.getCurrentVersion(type)).toBe(2);
+    expect(validateEventPayload(type, { orderId: 'ORD-001' })).toEqual([
+      { field: 'payload.reason', message: 'is required' },
+    ]);
+    expect(validateEventPayload(type, { orderId: 'ORD-001' }, 1)).toEqual([]);
+  });
+
+  it('should reject schemas the validator cannot apply', () => {
+    expect(() => SchemaRegistry.publishVersion(type, { type: 'date' } as any)).toThrow('schema.type must be one of');
+    expect(SchemaRegistry.getCurrentVersion(type)).toBe(1);
+  });
+
+  it('should render versions as JSON Schema documents', () => {
+    const document = SchemaRegistry.toJsonSchema(SchemaRegistry.getSchema('order.created')!);
+
+    expect(document.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(document.required).toEqual(['orderId', 'items']);
+  });
+
+  it('should tag new events with the current schema version', async () => {
+    SchemaRegistry.publishVersion(type, v2);
+
+    const event = await EventService.createEvent({
+      teamId: 'schema-team',
+      type,
+      payload: { orderId: 'ORD-001', reason: 'damaged_item' },
+    });
+    const replayed = await EventService.replayEvent(event.id);
+
+    expect(event.metadata?.schemaVersion).toBe(2);
+    expect(replayed.metadata?.schemaVersion).toBe(2);
+  });
+});
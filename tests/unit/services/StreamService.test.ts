@@ -0,0 +1,80 @@
+import StreamService from '../../../src/services/StreamService';
+import EventService from '../../../src/services/EventService';
+import { StreamMessage } from '../../../src/models/Stream';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+
+describe('StreamService', () => {
+  const received: StreamMessage[] = [];
+  const unsubscribers: Array<() => void> = [];
+
+  const subscribe = (teamId: string | null) => {
+    unsubscribers.push(StreamService.subscribe(teamId, message => received.push(message)));
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+    received.length = 0;
+    db.prepare("DELETE FROM events WHERE team_id LIKE 'stream-team-%'").run();
+  });
+
+  it('should only deliver the subscribed team', async () => {
+    subscribe('stream-team-a');
+
+    await EventService.createEvent({ teamId: 'stream-team-a', type: 'order.created', payload: {} });
+    await EventService.createEvent({ teamId: 'stream-team-b', type: 'order.created', payload: {} });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ kind: 'event', teamId: 'stream-team-a' });
+    expect(received[0].kind === 'event' && received[0].data.sequence).toBeDefined();
+  });
+
+  it('should deliver every team to a null subscription', async () => {
+    subscribe(null);
+
+    await EventService.createEvent({ teamId: 'stream-team-a', type: 'order.created', payload: {} });
+    await EventService.createEvent({ teamId: 'stream-team-b', type: 'order.created', payload: {} });
+
+    expect(received.map(m => m.teamId)).toEqual(['stream-team-a', 'stream-team-b']);
+  });
+
+  it('should not publish delayed events until they are released', async () => {
+    subscribe('stream-team-a');
+
+    const delayed = await EventService.createEvent({
+      teamId: 'stream-team-a',
+      type: 'order.created',
+      payload: {},
+      metadata: { delayedUntil: new Date(Date.now() - 1000).toISOString() },
+    });
+    expect(received).toHaveLength(0);
+
+    await EventService.releaseEvent(delayed.id);
+
+    expect(received).toHaveLength(1);
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    subscribe('stream-team-a');
+    unsubscribers.pop()!();
+
+    await EventService.createEvent({ teamId: 'stream-team-a', type: 'order.created', payload: {} });
+
+    expect(received).toHaveLength(0);
+  });
+
+  it('should isolate failing listeners from the publisher', async () => {
+    unsubscribers.push(StreamService.subscribe('stream-team-a', () => {
+      throw new Error('socket gone');
+    }));
+
+    await expect(
+      EventService.createEvent({ teamId: 'stream-team-a', type: 'order.created', payload: {} })
+    ).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,244 @@
+import WebhookService from '../../../src/services/WebhookService';
+import { Event } from '../../../src/models/Event';
+import { runMigrations } from '../../../src/database/migrate';
+import db from '../../../src/database/connection';
+import { signPayload, verifySignature } from '../../../src/utils/signature';
+
+describe('WebhookService', () => {
+  const teamId = 'webhook-test-team';
+  const fetchMock = jest.fn();
+
+  const event: Event = {
+    id: 'evt-001',
+    teamId,
+    type: 'order.created',
+    payload: { orderId: 'ORD-001', items: [{ sku: 'IT-001', qty: 1 }] },
+    createdAt: new Date().toISOString(),
+    metadata: { correlationId: 'corr-001' },
+  };
+
+  beforeAll(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await runMigrations();
+
+    db.prepare(`
+      INSERT OR IGNORE INTO teams (team_id, name, api_key, mode, created_at)
+      VALUES (?, 'Webhook Test Team', 'key', 'development', ?)
+    `).run(teamId, new Date().toISOString());
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM webhook_deliveries WHERE team_id = ?').run(teamId);
+    db.prepare('DELETE FROM team_webhooks WHERE team_id = ?').run(teamId);
+  });
+
+  // Make a scheduled retry due immediately
+  const makeDue = (deliveryId: string) => {
+    db.prepare('UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ?')
+      .run(new Date(Date.now() - 1000).toISOString(), deliveryId);
+  };
+
+  afterAll(() => {
+    db.prepare('DELETE FROM teams WHERE team_id = ?').run(teamId);
+  });
+
+  describe('setWebhookUrl', () => {
+    it('should store the URL with all event types by default', () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a');
+
+      const webhook = WebhookService.getWebhookConfig(teamId);
+
+      expect(webhook?.webhookUrl).toBe('https://n8n.example.com/webhook/a');
+      expect(webhook?.eventTypes).toBeNull();
+    });
+
+    it('should keep the event type selection when only the URL changes', () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a', ['order.paid']);
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/b');
+
+      const webhook = WebhookService.getWebhookConfig(teamId);
+
+      expect(webhook?.webhookUrl).toBe('https://n8n.example.com/webhook/b');
+      expect(webhook?.eventTypes).toEqual(['order.paid']);
+    });
+  });
+
+  describe('setEventTypes', () => {
+    it('should throw when the team has no webhook', () => {
+      expect(() => WebhookService.setEventTypes(teamId, ['order.paid'])).toThrow(
+        `No webhook configured for team ${teamId}`
+      );
+    });
+  });
+
+  describe('sendEvent', () => {
+    it('should post the event envelope to the team webhook', async () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a');
+
+      await WebhookService.sendEvent(event);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(init.body);
+
+      expect(url).toBe('https://n8n.example.com/webhook/a');
+      expect(body).toMatchObject({
+        kind: 'event',
+        eventId: event.id,
+        type: event.type,
+        teamId,
+        payload: event.payload,
+        metadata: event.metadata,
+        createdAt: event.createdAt,
+      });
+      expect(body.sentAt).toBeDefined();
+    });
+
+    it('should skip event types the team did not subscribe to', async () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a', ['order.paid']);
+
+      await WebhookService.sendEvent(event);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delivery retries', () => {
+    beforeEach(() => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a');
+    });
+
+    it('should mark a successful delivery as delivered', async () => {
+      const delivery = await WebhookService.sendEvent(event);
+
+      expect(delivery?.status).toBe('delivered');
+      expect(delivery?.attempts).toBe(1);
+      expect(delivery?.deliveredAt).toBeDefined();
+    });
+
+    it('should schedule a retry with backoff after a failure', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 502 });
+
+      const delivery = await WebhookService.sendEvent(event);
+
+      expect(delivery?.status).toBe('pending');
+      expect(delivery?.attempts).toBe(1);
+      expect(delivery?.lastError).toContain('502');
+      expect(new Date(delivery!.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+
+      const attempts = await WebhookService.getDeliveryAttempts(delivery!.id);
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].statusCode).toBe(502);
+    });
+
+    it('should not retry before the backoff has elapsed', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const delivery = await WebhookService.sendEvent(event);
+      await WebhookService.processDueDeliveries();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await WebhookService.getDelivery(delivery!.id))?.attempts).toBe(1);
+    });
+
+    it('should dead-letter a delivery after the maximum attempts', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      let delivery = await WebhookService.sendEvent(event);
+      while (delivery!.status === 'pending') {
+        makeDue(delivery!.id);
+        delivery = await WebhookService.attemptDelivery(delivery!.id);
+      }
+
+      expect(delivery?.status).toBe('dead_letter');
+      expect(delivery?.attempts).toBe(delivery?.maxAttempts);
+      expect(delivery?.nextAttemptAt).toBeNull();
+
+      const deadLetters = await WebhookService.getDeliveries({ status: 'dead_letter', teamId });
+      expect(deadLetters.map(d => d.id)).toContain(delivery!.id);
+    });
+
+    it('should redeliver a dead letter with a fresh attempt budget', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      let delivery = await WebhookService.sendEvent(event);
+      while (delivery!.status === 'pending') {
+        makeDue(delivery!.id);
+        delivery = await WebhookService.attemptDelivery(delivery!.id);
+      }
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      const redelivered = await WebhookService.redeliver(delivery!.id);
+
+      expect(redelivered.status).toBe('delivered');
+      expect(redelivered.attempts).toBe(1);
+      expect(JSON.parse(fetchMock.mock.calls.at(-1)[1].body).eventId).toBe(event.id);
+    });
+
+    it('should requeue dead letters for the worker without sending them', async () => {
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      let delivery = await WebhookService.sendEvent(event);
+      while (delivery!.status === 'pending') {
+        makeDue(delivery!.id);
+        delivery = await WebhookService.attemptDelivery(delivery!.id);
+      }
+
+      const calls = fetchMock.mock.calls.length;
+      expect(WebhookService.requeueDeadLetters(teamId)).toBe(1);
+      expect(fetchMock.mock.calls.length).toBe(calls);
+
+      const requeued = await WebhookService.getDelivery(delivery!.id);
+      expect(requeued).toMatchObject({ status: 'pending', attempts: 0 });
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      await WebhookService.processDueDeliveries();
+
+      expect((await WebhookService.getDelivery(delivery!.id))?.status).toBe('delivered');
+    });
+  });
+
+  describe('signing', () => {
+    it('should sign requests with the team secret', async () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a');
+      const { signingSecret } = WebhookService.getWebhookConfig(teamId)!;
+
+      await WebhookService.sendEvent(event);
+
+      const [, init] = fetchMock.mock.calls[0];
+      const timestamp = parseInt(init.headers['X-Webhook-Timestamp']);
+      const signature = init.headers['X-Webhook-Signature'];
+
+      expect(signingSecret).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifySignature(signingSecret!, timestamp, init.body, signature)).toBe(true);
+      expect(verifySignature(signingSecret!, timestamp, init.body + ' ', signature)).toBe(false);
+    });
+
+    it('should reject stale timestamps', () => {
+      const secret = 'whsec_test';
+      const body = JSON.stringify({ eventId: event.id });
+      const staleTimestamp = Math.floor(Date.now() / 1000) - 600;
+
+      const signature = signPayload(secret, staleTimestamp, body);
+
+      expect(verifySignature(secret, staleTimestamp, body, signature)).toBe(false);
+    });
+
+    it('should rotate the signing secret', () => {
+      WebhookService.setWebhookUrl(teamId, 'https://n8n.example.com/webhook/a');
+      const before = WebhookService.getWebhookConfig(teamId)!.signingSecret;
+
+      const rotated = WebhookService.rotateSigningSecret(teamId);
+
+      expect(rotated).not.toBe(before);
+      expect(WebhookService.getWebhookConfig(teamId)!.signingSecret).toBe(rotated);
+    });
+  });
+});
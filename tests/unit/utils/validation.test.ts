@@ -0,0 +1,104 @@
+import { validateEventPayload, validateEvents, validateInventoryLines } from '../../../src/utils/validation';
+import { runMigrations } from '../../../src/database/migrate';
+
+describe('validation', () => {
+  describe('validateEventPayload', () => {
+    it('should accept a valid order', () => {
+      const issues = validateEventPayload('order.created', {
+        orderId: 'ORD-001',
+        items: [{ sku: 'IT-001', qty: 2 }],
+      });
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should list every failing field', () => {
+      const issues = validateEventPayload('order.paid', {
+        orderId: 42,
+        items: [{ sku: 'IT-001', qty: 0 }, { qty: 1.5 }],
+      });
+
+      expect(issues).toEqual([
+        { field: 'payload.orderId', message: 'must be a string' },
+        { field: 'payload.items[0].qty', message: 'must be at least 1' },
+        { field: 'payload.items[1].sku', message: 'is required' },
+        { field: 'payload.items[1].qty', message: 'must be an integer' },
+      ]);
+    });
+
+    it('should reject an order.paid without items', () => {
+      const issues = validateEventPayload('order.paid', { orderId: 'ORD-001', amount: 100 });
+
+      expect(issues).toEqual([{ field: 'payload.items', message: 'is required' }]);
+    });
+
+    it('should reject a payload that is not an object', () => {
+      expect(validateEventPayload('order.cancelled', 'ORD-001')).toEqual([
+        { field: 'payload', message: 'must be an object' },
+      ]);
+    });
+
+    it('should accept any payload for types without a schema', () => {
+      expect(validateEventPayload('event.delayed', null)).toEqual([]);
+    });
+  });
+
+  describe('inventory.shortage_detected', () => {
+    beforeAll(async () => {
+      await runMigrations();
+    });
+
+    it('should require the fields of the given reason', () => {
+      const order = { reason: 'order', sku: 'IT-001', available: 1, requested: 3, orderId: 'ORD-1' };
+      const reorder = { reason: 'reorder_point', sku: 'IT-001', available: 4, stock: 10, reserved: 6, reorderPoint: 5 };
+
+      expect(validateEventPayload('inventory.shortage_detected', order)).toEqual([]);
+      expect(validateEventPayload('inventory.shortage_detected', reorder)).toEqual([]);
+
+      expect(validateEventPayload('inventory.shortage_detected', { ...reorder, reason: 'order' })).toEqual([
+        { field: 'payload.requested', message: 'is required' },
+        { field: 'payload.orderId', message: 'is required' },
+      ]);
+      expect(validateEventPayload('inventory.shortage_detected', { ...order, reason: 'unknown' })).toContainEqual(
+        { field: 'payload.reason', message: 'must be one of: order, reorder_point' }
+      );
+    });
+  });
+
+  describe('validateEvents', () => {
+    it('should prefix issues with the event position', () => {
+      const issues = validateEvents([
+        { type: 'order.cancelled', payload: { orderId: 'ORD-001' } },
+        { type: 'order.shipped', payload: {} },
+        { type: 'inventory.restocked', payload: { sku: 'IT-001', quantity: -1 } },
+      ]);
+
+      expect(issues.map(issue => issue.field)).toEqual(['events[1].type', 'events[2].payload.quantity']);
+    });
+
+    it('should still check the type when skipping payload validation', () => {
+      const issues = validateEvents(
+        [{ type: 'order.created', payload: {} }, { type: 'order.shipped', payload: {} }],
+        true
+      );
+
+      expect(issues.map(issue => issue.field)).toEqual(['events[1].type']);
+    });
+  });
+
+  describe('validateInventoryLines', () => {
+    it('should accept line items with optional expected versions', () => {
+      expect(validateInventoryLines([{ sku: 'IT-001', qty: 2 }, { sku: 'IT-002', qty: 1, expectedVersion: 3 }])).toEqual([]);
+    });
+
+    it('should reject empty, invalid and repeated lines', () => {
+      expect(validateInventoryLines([])).toEqual([{ field: 'items', message: 'must contain at least 1 item(s)' }]);
+      expect(validateInventoryLines([{ sku: 'IT-001', qty: 0 }])).toEqual([
+        { field: 'items[0].qty', message: 'must be at least 1' },
+      ]);
+      expect(validateInventoryLines([{ sku: 'IT-001', qty: 1 }, { sku: 'IT-001', qty: 2 }])).toEqual([
+        { field: 'items[1].sku', message: 'duplicates IT-001' },
+      ]);
+    });
+  });
+});